@@ -0,0 +1,406 @@
+import { Composer, Context, Markup } from 'telegraf';
+import { Filter, MongoServerError, ObjectId } from 'mongodb';
+import { MessageEntity } from 'telegraf/typings/core/types/typegram';
+
+import { resolveModel } from '../models';
+import { formatQuotaAmount } from '../quotas';
+import {
+  BroadcastButton,
+  parseSegment,
+  describeSegment,
+  countRecipients,
+  createBroadcastDraft,
+  getBroadcast,
+  startBroadcast,
+  cancelBroadcast,
+  sendBroadcastMessage,
+  formatBroadcastReport,
+} from '../broadcast';
+import { I18n } from '../i18n';
+import {
+  UserProfile,
+  getUserI18n,
+  isEnvAdmin,
+  findUserByReference,
+  setUserBanned,
+  users,
+} from '../users';
+import { getI18n, getCommandArgs } from '../context';
+import {
+  formatUsageTotals,
+  getUsageTotals,
+  refreshQuotaWindows,
+  getQuotaUsage,
+} from '../usage';
+import { adminOnly, envAdminOnly } from '../middleware';
+import { generations } from '../chat/generation';
+import { grantPremium, revokePremium } from '../billing/subscriptions';
+import { Payment, refundStarPayment, payments } from '../billing/payments';
+import { PROMO_KINDS, normalizePromoCode, promoCodes } from '../billing/promo';
+import { triggerBroadcastProcessing } from '.';
+import { images } from '../images';
+
+const adminComposer = new Composer<Context>();
+
+async function formatUserReport(user: UserProfile, i18n: I18n): Promise<string> {
+  const { t } = i18n;
+  await refreshQuotaWindows(user);
+  const quotaUsage = getQuotaUsage(user);
+  const [usage, generationsCount, imagesCount, recentPayments] = await Promise.all([
+    getUsageTotals({ userId: user.userId }, new Date(0)),
+    generations().countDocuments({ userId: user.userId }),
+    images().countDocuments({ userId: user.userId }),
+    payments().find({ user_id: user.userId }).sort({ created_at: -1 }).limit(5).toArray(),
+  ]);
+
+  const paymentLines = recentPayments.length
+    ? recentPayments.map(payment =>
+      `• ${payment.payment_id}: ${payment.amount} ⭐, ${payment.status}, ${i18n.formatDate(payment.created_at)}`
+    ).join('\n')
+    : t('admin.reportNone');
+
+  return t('admin.userReport', {
+    user: `${user.userId}${user.username ? ` (@${user.username})` : ''}`,
+    role: isEnvAdmin(user.userId) ? 'admin (ADMIN_IDS)' : user.role || 'user',
+    banned: user.banned ? t('admin.reportBanned') : '',
+    subscription: user.subscription +
+      (user.subscriptionExpiryDate && user.subscription === 'premium'
+        ? t('admin.reportUntil', { date: i18n.formatDate(user.subscriptionExpiryDate) })
+        : '') +
+      (user.autoRenew ? t('admin.reportAutoRenew') : ''),
+    model: resolveModel(user.subscription, user.selectedModel).name,
+    lastActive: user.lastActiveAt
+      ? i18n.formatDate(user.lastActiveAt, { dateStyle: 'medium', timeStyle: 'short' })
+      : t('admin.reportUnknown'),
+    quotaDaily: formatQuotaAmount(i18n, quotaUsage.quota.unit, quotaUsage.daily),
+    quotaMonthly: formatQuotaAmount(i18n, quotaUsage.quota.unit, quotaUsage.monthly),
+    images: user.dailyImages ?? 0,
+    balance: user.bonusRequests ?? 0,
+    generations: generationsCount,
+    imagesTotal: imagesCount,
+    usage: formatUsageTotals(i18n, usage),
+    payments: paymentLines,
+  });
+}
+
+// Кнопки-ссылки задаются последними строками сообщения в виде [Текст](https://...)
+const BROADCAST_BUTTON_REGEX = /^\[([^\]\n]+)\]\((https?:\/\/\S+)\)$/;
+
+// Разбираем текст после первой строки команды /broadcast: сам текст, кнопки и форматирование
+function parseBroadcastBody(text: string, entities: MessageEntity[] = []) {
+  const bodyStart = text.indexOf('\n') === -1 ? text.length : text.indexOf('\n') + 1;
+  const lines = text.slice(bodyStart).split('\n');
+  const buttons: BroadcastButton[] = [];
+
+  while (lines.length) {
+    const match = BROADCAST_BUTTON_REGEX.exec(lines[lines.length - 1].trim());
+    if (!match) break;
+    buttons.unshift({ text: match[1], url: match[2] });
+    lines.pop();
+  }
+
+  const body = lines.join('\n').trimEnd();
+  const bodyEntities = entities
+    .filter(entity => entity.offset >= bodyStart && entity.offset + entity.length <= bodyStart + body.length)
+    .map(entity => ({ ...entity, offset: entity.offset - bodyStart }));
+
+  return { body, entities: bodyEntities, buttons };
+}
+
+async function collectBotStats(i18n: I18n): Promise<string> {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+  const sumPayments = async (filter: Filter<Payment>) => {
+    const [result] = await payments().aggregate<{ total: number, count: number }>([
+      { $match: filter },
+      { $group: { _id: null, total: { $sum: '$amount' }, count: { $sum: 1 } } }
+    ]).toArray();
+    return result ?? { total: 0, count: 0 };
+  };
+
+  const [
+    totalUsers,
+    premiumUsers,
+    dau,
+    newUsers,
+    requests,
+    imagesCount,
+    usageDay,
+    usageTotal,
+    revenueDay,
+    revenueTotal,
+    refunded,
+  ] = await Promise.all([
+    users().countDocuments(),
+    users().countDocuments({ subscription: 'premium' }),
+    users().countDocuments({ lastActiveAt: { $gte: since } }),
+    users().countDocuments({ _id: { $gte: ObjectId.createFromTime(Math.floor(since.getTime() / 1000)) } }),
+    generations().countDocuments({ createdAt: { $gte: since } }),
+    images().countDocuments({ createdAt: { $gte: since } }),
+    getUsageTotals({}, since),
+    getUsageTotals({}, new Date(0)),
+    sumPayments({ status: 'completed', created_at: { $gte: since } }),
+    sumPayments({ status: 'completed' }),
+    sumPayments({ status: 'refunded' }),
+  ]);
+
+  return i18n.t('admin.stats', {
+    dau,
+    newUsers,
+    requests,
+    images: imagesCount,
+    usageDay: formatUsageTotals(i18n, usageDay),
+    revenueDay: revenueDay.total,
+    paymentsDay: i18n.formatCount('unit.payments', revenueDay.count),
+    totalUsers,
+    premiumUsers,
+    usageTotal: formatUsageTotals(i18n, usageTotal),
+    revenueTotal: revenueTotal.total,
+    paymentsTotal: i18n.formatCount('unit.payments', revenueTotal.count),
+    refunded: refunded.total,
+    refundedPayments: i18n.formatCount('unit.payments', refunded.count),
+  });
+}
+
+adminComposer.command('refund', adminOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  const paymentId = ctx.message.text.split(' ')[1]?.trim();
+  if (!paymentId) {
+    await ctx.reply(t('admin.refundUsage'));
+    return;
+  }
+
+  try {
+    const payment = await refundStarPayment(paymentId, ctx.from.id);
+    await ctx.reply(t('admin.refunded', { paymentId, amount: payment.amount, userId: payment.user_id }));
+  } catch (error) {
+    console.error('Refund error:', error);
+    await ctx.reply(t('admin.refundError', { error: (error as Error).message }));
+  }
+});
+
+adminComposer.command('admin_user', adminOnly, async (ctx) => {
+  const i18n = getI18n(ctx);
+  const [reference] = getCommandArgs(ctx.message.text);
+  if (!reference) {
+    await ctx.reply(i18n.t('admin.userUsage'));
+    return;
+  }
+
+  const user = await findUserByReference(reference);
+  if (!user) {
+    await ctx.reply(i18n.t('common.userNotFound'));
+    return;
+  }
+  await ctx.reply(await formatUserReport(user, i18n));
+});
+
+adminComposer.command('grant_premium', adminOnly, async (ctx) => {
+  const i18n = getI18n(ctx);
+  const [reference, daysArg] = getCommandArgs(ctx.message.text);
+  const days = parseInt(daysArg, 10);
+  if (!reference || Number.isNaN(days) || days <= 0) {
+    await ctx.reply(i18n.t('admin.grantUsage'));
+    return;
+  }
+
+  const user = await findUserByReference(reference);
+  if (!user) {
+    await ctx.reply(i18n.t('common.userNotFound'));
+    return;
+  }
+
+  const expiryDate = await grantPremium(user, days, ctx.from.id);
+  await ctx.reply(i18n.t('admin.granted', { userId: user.userId, date: i18n.formatDate(expiryDate) }));
+  const userI18n = getUserI18n(user);
+  await ctx.telegram.sendMessage(
+    user.userId,
+    userI18n.t('admin.grantNotice', { date: userI18n.formatDate(expiryDate) })
+  ).catch(error => console.error(`Failed to notify user ${user.userId} about granted premium:`, error));
+});
+
+adminComposer.command('revoke_premium', adminOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  const [reference] = getCommandArgs(ctx.message.text);
+  if (!reference) {
+    await ctx.reply(t('admin.revokeUsage'));
+    return;
+  }
+
+  const user = await findUserByReference(reference);
+  if (!user) {
+    await ctx.reply(t('common.userNotFound'));
+    return;
+  }
+  if (user.subscription !== 'premium') {
+    await ctx.reply(t('admin.noPremium'));
+    return;
+  }
+
+  await revokePremium(user, ctx.from.id);
+  await ctx.reply(t('admin.revoked', { userId: user.userId }));
+});
+
+adminComposer.command(['ban', 'unban'], adminOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  const banned = ctx.command === 'ban';
+  const [reference] = getCommandArgs(ctx.message.text);
+  if (!reference) {
+    await ctx.reply(t('admin.banUsage', { command: ctx.command }));
+    return;
+  }
+
+  const user = await findUserByReference(reference);
+  if (!user) {
+    await ctx.reply(t('common.userNotFound'));
+    return;
+  }
+  if (banned && isEnvAdmin(user.userId)) {
+    await ctx.reply(t('admin.cannotBanEnvAdmin'));
+    return;
+  }
+
+  await setUserBanned(user.userId, banned);
+  await ctx.reply(t(banned ? 'admin.banned' : 'admin.unbanned', { userId: user.userId }));
+});
+
+adminComposer.command('set_role', envAdminOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  const [reference, role] = getCommandArgs(ctx.message.text);
+  if (!reference || (role !== 'admin' && role !== 'user')) {
+    await ctx.reply(t('admin.roleUsage'));
+    return;
+  }
+
+  const user = await findUserByReference(reference);
+  if (!user) {
+    await ctx.reply(t('common.userNotFound'));
+    return;
+  }
+
+  await users().updateOne({ userId: user.userId }, { $set: { role } });
+  await ctx.reply(t('admin.roleSet', { userId: user.userId, role }));
+});
+
+adminComposer.command('create_promo', adminOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  const [code, kindArg, valueArg, maxUsesArg, expiresArg] = getCommandArgs(ctx.message.text);
+  const kind = PROMO_KINDS[kindArg];
+  const value = parseInt(valueArg, 10);
+  const maxUses = maxUsesArg && maxUsesArg !== '-' ? parseInt(maxUsesArg, 10) : undefined;
+  const expiresAt = expiresArg ? new Date(`${expiresArg}T23:59:59+03:00`) : undefined;
+
+  const invalid = !code || !kind || Number.isNaN(value) || value <= 0 ||
+    (kind === 'discount' && value >= 100) ||
+    (maxUses !== undefined && (Number.isNaN(maxUses) || maxUses <= 0)) ||
+    (expiresAt !== undefined && Number.isNaN(expiresAt.getTime()));
+  if (invalid) {
+    await ctx.reply(t('admin.promoUsage'));
+    return;
+  }
+
+  try {
+    await promoCodes().insertOne({
+      code: normalizePromoCode(code),
+      kind,
+      value,
+      ...(maxUses !== undefined && { maxUses }),
+      uses: 0,
+      ...(expiresAt && { expiresAt }),
+      createdBy: ctx.from.id,
+      createdAt: new Date()
+    });
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      await ctx.reply(t('admin.promoExists'));
+      return;
+    }
+    throw error;
+  }
+  await ctx.reply(t('admin.promoCreated', { code: normalizePromoCode(code) }));
+});
+
+adminComposer.command('stats', adminOnly, async (ctx) => {
+  await ctx.reply(await collectBotStats(getI18n(ctx)));
+});
+
+adminComposer.command('broadcast', adminOnly, async (ctx) => {
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+  const [segmentArg] = getCommandArgs(ctx.message.text.split('\n')[0]);
+  const target = parseSegment(segmentArg);
+  const { body, entities, buttons } = parseBroadcastBody(ctx.message.text, ctx.message.entities);
+
+  // Фото для рассылки — сообщение, на которое отвечает команда
+  const reply = ctx.message.reply_to_message;
+  const photo = reply && 'photo' in reply ? reply.photo[reply.photo.length - 1] : undefined;
+  const replyCaption = reply && 'caption' in reply ? reply.caption : undefined;
+  const useReplyCaption = photo && !body && replyCaption;
+
+  if (!target || (!body && !photo)) {
+    await ctx.reply(t('broadcast.usage'));
+    return;
+  }
+
+  const broadcast = await createBroadcastDraft({
+    adminId: ctx.from.id,
+    locale: i18n.locale,
+    segment: target.segment,
+    activeDays: target.activeDays,
+    text: useReplyCaption ? replyCaption : body,
+    entities: useReplyCaption && reply && 'caption_entities' in reply ? reply.caption_entities : entities,
+    photoFileId: photo?.file_id,
+    buttons,
+  });
+
+  try {
+    await sendBroadcastMessage(ctx.telegram, ctx.chat.id, broadcast);
+  } catch (error) {
+    console.error('Broadcast preview error:', error);
+    await ctx.reply(t('broadcast.previewError', { error: (error as Error).message }));
+    return;
+  }
+
+  const recipients = await countRecipients(broadcast);
+  await ctx.reply(
+    t('broadcast.preview', { segment: describeSegment(t, broadcast), recipients }),
+    Markup.inlineKeyboard([
+      Markup.button.callback(t('broadcast.sendButton'), `broadcast_send:${broadcast._id}`),
+      Markup.button.callback(t('broadcast.cancelButton'), `broadcast_cancel:${broadcast._id}`)
+    ])
+  );
+});
+
+adminComposer.action(/^broadcast_send:([0-9a-f]{24})$/, adminOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  const broadcast = await startBroadcast(new ObjectId(ctx.match[1]));
+  if (!broadcast) {
+    await ctx.answerCbQuery(t('broadcast.alreadyStarted'));
+    return;
+  }
+
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    t('broadcast.started', { segment: describeSegment(t, broadcast), recipients: broadcast.recipients }),
+    Markup.inlineKeyboard([Markup.button.callback(t('broadcast.stopButton'), `broadcast_cancel:${broadcast._id}`)])
+  );
+  await triggerBroadcastProcessing();
+});
+
+adminComposer.action(/^broadcast_cancel:([0-9a-f]{24})$/, adminOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  const id = new ObjectId(ctx.match[1]);
+  await cancelBroadcast(id);
+  await ctx.answerCbQuery();
+
+  const broadcast = await getBroadcast(id);
+  if (broadcast?.status === 'cancelled' && broadcast.startedAt) {
+    await ctx.editMessageText(formatBroadcastReport(t, broadcast));
+  } else {
+    await ctx.editMessageText(t('broadcast.cancelled'));
+  }
+});
+
+export {
+  adminComposer,
+};
@@ -0,0 +1,34 @@
+import axios from 'axios';
+
+import { processBroadcastQueue } from '../broadcast';
+import { ENVIRONMENT, CRON_SECRET } from '../config';
+import { telegram } from '../telegram';
+
+// Один вызов функции Vercel обрабатывает рассылку не дольше этого времени, затем передает ее следующему
+const BROADCAST_TIME_BUDGET_MS = 8000;
+const BROADCAST_TRIGGER_TIMEOUT_MS = 1500;
+const BROADCAST_POLL_INTERVAL_MS = 5000;
+
+// Запускает обработку очереди рассылок. На Vercel — отдельным вызовом функции,
+// чтобы доставка не зависела от времени жизни текущего запроса.
+async function triggerBroadcastProcessing() {
+  if (ENVIRONMENT !== 'production') {
+    processBroadcastQueue(telegram, BROADCAST_TIME_BUDGET_MS)
+      .catch(error => console.error('Broadcast processing failed:', error));
+    return;
+  }
+
+  await axios.get(`${process.env.VERCEL_URL}/api`, {
+    params: { task: 'broadcast' },
+    headers: { Authorization: `Bearer ${CRON_SECRET}` },
+    timeout: BROADCAST_TRIGGER_TIMEOUT_MS,
+  }).catch(() => {
+    // Ответа не ждем: вызов продолжает работу после таймаута
+  });
+}
+
+export {
+  BROADCAST_TIME_BUDGET_MS,
+  BROADCAST_POLL_INTERVAL_MS,
+  triggerBroadcastProcessing,
+};
@@ -0,0 +1,352 @@
+import { Composer, Context, Markup } from 'telegraf';
+
+import { getPlanById, getRequestPackById, extendExpiryDate } from '../plans';
+import { getUserProfile, users } from '../users';
+import { getI18n, getCommandArgs } from '../context';
+import { privateOnly } from '../middleware';
+import { setSubscriptionAutoRenew } from './subscriptions';
+import {
+  StarSubscriptionPayment,
+  INVOICE_TTL_MS,
+  logPaymentEvent,
+  transitionInvoice,
+  claimPayment,
+  completePayment,
+  releasePayment,
+  Payment,
+  sendPlanPicker,
+  sendRequestPackPicker,
+  sendRequestPackInvoice,
+  sendGiftPlanPicker,
+  sendSubscriptionInvoice,
+  invoices,
+} from './payments';
+import { GIFT_CODE_PREFIX, redeemPromoCode, createGiftCode } from './promo';
+import {
+  REFERRAL_ACTIVATION_BONUS_REQUESTS,
+  REFERRAL_PAYMENT_BONUS_DAYS,
+  ensureReferralCode,
+  buildReferralLink,
+  rewardReferralPayment,
+  getReferralStats,
+} from './referrals';
+
+const billingComposer = new Composer<Context>();
+
+billingComposer.command('referrals', privateOnly, async (ctx) => {
+  const user = await getUserProfile(ctx.from.id, ctx.from.username);
+  const referralLink = buildReferralLink(ctx.botInfo.username, await ensureReferralCode(user));
+  const stats = await getReferralStats(user.userId);
+  const i18n = getI18n(ctx);
+
+  await ctx.reply(i18n.t('referral.text', {
+    link: referralLink,
+    activationBonus: i18n.formatCount('unit.bonusRequests', REFERRAL_ACTIVATION_BONUS_REQUESTS),
+    paymentBonus: i18n.formatCount('unit.days', REFERRAL_PAYMENT_BONUS_DAYS),
+    invited: stats.invited,
+    activated: stats.activated,
+    paid: stats.paid,
+    earnedRequests: i18n.formatCount('unit.requests', stats.earnedRequests),
+    earnedDays: i18n.formatCount('unit.days', stats.earnedPremiumDays),
+  }));
+});
+
+billingComposer.command('promo', privateOnly, async (ctx) => {
+  const i18n = getI18n(ctx);
+  const [code] = getCommandArgs(ctx.message.text);
+  if (!code) {
+    await ctx.reply(i18n.t('promo.usage'));
+    return;
+  }
+
+  try {
+    const user = await getUserProfile(ctx.from.id, ctx.from.username);
+    await ctx.reply(await redeemPromoCode(user, code, i18n));
+  } catch (error) {
+    console.error('Promo code error:', error);
+    await ctx.reply(i18n.t('promo.error'));
+  }
+});
+
+billingComposer.command('gift', privateOnly, async (ctx) => {
+  await sendGiftPlanPicker(ctx.from.id, ctx);
+});
+
+billingComposer.command('pay', privateOnly, async (ctx) => {
+  const userId = ctx.from!.id;
+  await sendPlanPicker(userId, ctx);
+});
+
+billingComposer.command('cancel_subscription', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  const user = await getUserProfile(userId);
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+
+  if (user.subscription !== 'premium') {
+    await ctx.reply(t('subscription.none'));
+    return;
+  }
+
+  const expiryDate = user.subscriptionExpiryDate ? i18n.formatDate(user.subscriptionExpiryDate) : undefined;
+
+  if (!user.autoRenew) {
+    await ctx.reply(
+      t('subscription.noAutoRenew') +
+      (expiryDate ? '\n' + t('subscription.availableUntil', { date: expiryDate }) : '')
+    );
+    return;
+  }
+
+  try {
+    await setSubscriptionAutoRenew(user, false);
+    await ctx.reply(
+      t('subscription.autoRenewCancelled') +
+      (expiryDate ? '\n' + t('subscription.activeUntil', { date: expiryDate }) : ''),
+      Markup.inlineKeyboard([Markup.button.callback(t('subscription.resumeButton'), 'resume_subscription')])
+    );
+  } catch (error) {
+    console.error('Error cancelling subscription:', error);
+    await ctx.reply(t('subscription.cancelError'));
+  }
+});
+
+billingComposer.action('resume_subscription', async (ctx) => {
+  await ctx.answerCbQuery();
+  const { t } = getI18n(ctx);
+  const user = await getUserProfile(ctx.from!.id);
+
+  if (user.subscription !== 'premium' || !user.starSubscriptionChargeId) {
+    await ctx.reply(t('subscription.alreadyEnded'));
+    return;
+  }
+
+  try {
+    await setSubscriptionAutoRenew(user, true);
+    await ctx.editMessageText(t('subscription.autoRenewResumed'));
+  } catch (error) {
+    console.error('Error resuming subscription:', error);
+    await ctx.reply(t('subscription.resumeError'));
+  }
+});
+
+billingComposer.on('pre_checkout_query', async (ctx) => {
+  const { invoice_payload, total_amount, currency, from } = ctx.preCheckoutQuery;
+  const { t } = getI18n(ctx);
+  try {
+    const invoice = await invoices().findOne({ payload: invoice_payload });
+    if (!invoice) {
+      await ctx.answerPreCheckoutQuery(false, t('checkout.invoiceNotFound'));
+      return;
+    }
+    // Сверяем оплату с сохраненным счетом
+    const product = invoice.pack_id ? getRequestPackById(invoice.pack_id) : getPlanById(invoice.plan_id ?? '');
+    if (!product || invoice.user_id !== from.id) {
+      await ctx.answerPreCheckoutQuery(false, t('checkout.productUnavailable'));
+      return;
+    }
+    if (currency !== 'XTR' || total_amount !== invoice.amount) {
+      await ctx.answerPreCheckoutQuery(false, t('checkout.amountMismatch'));
+      return;
+    }
+    const expired = Date.now() - invoice.created_at.getTime() > INVOICE_TTL_MS;
+    if (expired) {
+      await transitionInvoice(invoice, ['created', 'pre_checked'], 'expired');
+    }
+    if (expired || !(await transitionInvoice(invoice, ['created', 'pre_checked'], 'pre_checked'))) {
+      await ctx.answerPreCheckoutQuery(false, t('checkout.invoiceClosed'));
+      return;
+    }
+    await ctx.answerPreCheckoutQuery(true);
+  } catch (error) {
+    console.error('Pre-checkout error:', error);
+    await ctx.answerPreCheckoutQuery(false, t('checkout.error'));
+  }
+});
+
+billingComposer.on('successful_payment', async (ctx) => {
+  const payment = ctx.message?.successful_payment as StarSubscriptionPayment | undefined;
+  if (!payment) return;
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+  let savedPayment: Payment | null = null;
+
+  try {
+    const invoice = await invoices().findOne({ 
+      payload: payment.invoice_payload 
+    });
+    
+    if (!invoice) {
+      await ctx.reply(t('payment.invoiceNotFound'));
+      return;
+    }
+
+    savedPayment = await claimPayment({
+      payment_id: payment.telegram_payment_charge_id,
+      invoice_id: invoice.invoice_id,
+      user_id: ctx.from.id,
+      amount: payment.total_amount
+    });
+    if (!savedPayment) {
+      // Telegram повторно доставил уже обработанный платеж — премиум второй раз не продлеваем
+      console.log(`Duplicate successful_payment ${payment.telegram_payment_charge_id} ignored`);
+      return;
+    }
+
+    const isRenewal = payment.is_recurring && !payment.is_first_recurring;
+    if (isRenewal) {
+      // Продления подписки приходят с тем же payload, счет уже оплачен — записываем продление явно
+      await logPaymentEvent({
+        entity: 'invoice',
+        entityId: invoice.invoice_id,
+        userId: invoice.user_id,
+        from: invoice.status ?? 'created',
+        to: 'paid',
+        details: { reason: 'renewal', payment_id: payment.telegram_payment_charge_id }
+      });
+    } else {
+      await transitionInvoice(invoice, ['created', 'pre_checked'], 'paid', {
+        payment_id: payment.telegram_payment_charge_id
+      });
+    }
+
+    // Скидка по промокоду одноразовая
+    if (invoice.promo_code) {
+      await users().updateOne(
+        { userId: ctx.from.id, 'pendingDiscount.code': invoice.promo_code },
+        { $unset: { pendingDiscount: '' } }
+      );
+    }
+
+    if (invoice.gift) {
+      const giftCode = await createGiftCode(invoice);
+      await completePayment(savedPayment);
+      await rewardReferralPayment(ctx.from.id);
+      await ctx.reply(t('payment.giftPurchased', {
+        days: i18n.formatCount('unit.days', invoice.days ?? 0),
+        link: `https://t.me/${ctx.botInfo.username}?start=${GIFT_CODE_PREFIX}${giftCode.code}`,
+        code: giftCode.code,
+        date: i18n.formatDate(giftCode.expiresAt!),
+      }));
+      return;
+    }
+
+    if (invoice.pack_id) {
+      const updated = await users().findOneAndUpdate(
+        { userId: ctx.from.id },
+        { $inc: { bonusRequests: invoice.requests ?? 0 } },
+        { returnDocument: 'after' }
+      );
+      await completePayment(savedPayment);
+      await rewardReferralPayment(ctx.from.id);
+      await ctx.reply(t('payment.packPurchased', {
+        requests: i18n.formatCount('unit.requests', invoice.requests ?? 0),
+        balance: updated?.bonusRequests ?? invoice.requests ?? 0,
+      }));
+      return;
+    }
+    
+    // Активируем или продлеваем премиум подписку
+    const user = await getUserProfile(ctx.from.id);
+    const currentExpiry = user.subscription === 'premium' ? user.subscriptionExpiryDate : undefined;
+    // Каждый оплаченный месяц подписки добавляется к текущему сроку, чтобы не сгорели дни разовых покупок.
+    // Раньше даты, до которой Telegram считает подписку оплаченной, срок не ставим.
+    const extendedExpiry = extendExpiryDate(currentExpiry, invoice.days ?? 0);
+    const telegramExpiry = payment.subscription_expiration_date
+      ? new Date(payment.subscription_expiration_date * 1000)
+      : undefined;
+    const expiryDate = telegramExpiry && telegramExpiry > extendedExpiry ? telegramExpiry : extendedExpiry;
+
+    await users().updateOne(
+      { userId: ctx.from.id },
+      { 
+        $set: { 
+          subscription: 'premium',
+          subscriptionExpiryDate: expiryDate,
+          ...(payment.is_recurring && { autoRenew: true }),
+          ...(payment.is_first_recurring && { starSubscriptionChargeId: payment.telegram_payment_charge_id })
+        },
+        // Новый оплаченный период — напоминания об окончании снова актуальны
+        $unset: { expiryRemindersSent: '' }
+      }
+    );
+
+    await logPaymentEvent({
+      entity: 'subscription',
+      entityId: String(ctx.from.id),
+      userId: ctx.from.id,
+      from: user.subscription,
+      to: 'premium',
+      details: { payment_id: payment.telegram_payment_charge_id, expires_at: expiryDate }
+    });
+    await completePayment(savedPayment);
+
+    await rewardReferralPayment(ctx.from.id);
+
+    if (isRenewal) {
+      await ctx.reply(t('payment.autoRenewed', { date: i18n.formatDate(expiryDate) }));
+    } else {
+      await ctx.reply(t(currentExpiry ? 'payment.premiumExtended' : 'payment.premiumActivated', {
+        date: i18n.formatDate(expiryDate),
+      }));
+    }
+  } catch (error) {
+    console.error('Payment processing error:', error);
+    if (savedPayment?.status === 'pending') {
+      await releasePayment(savedPayment).catch(releaseError => console.error('Failed to release payment:', releaseError));
+    }
+    await ctx.reply(t('payment.error')).catch(() => {});
+    // Ошибка уходит в webhook, и Telegram доставит платеж еще раз
+    throw error;
+  }
+});
+
+billingComposer.action('buy_premium', async (ctx) => {
+  await ctx.answerCbQuery();
+  const userId = ctx.from!.id;
+  await sendPlanPicker(userId, ctx);
+});
+
+billingComposer.action('request_packs', async (ctx) => {
+  await ctx.answerCbQuery();
+  await sendRequestPackPicker(ctx.from!.id, ctx);
+});
+
+billingComposer.action(/^buy_pack:(.+)$/, async (ctx) => {
+  const pack = getRequestPackById(ctx.match[1]);
+  if (!pack) {
+    await ctx.answerCbQuery(getI18n(ctx).t('packs.notFound'));
+    return;
+  }
+  await ctx.answerCbQuery();
+  await sendRequestPackInvoice(ctx.from!.id, pack, ctx);
+});
+
+billingComposer.action('gift_premium', async (ctx) => {
+  await ctx.answerCbQuery();
+  await sendGiftPlanPicker(ctx.from!.id, ctx);
+});
+
+billingComposer.action(/^gift_plan:(.+)$/, async (ctx) => {
+  const plan = getPlanById(ctx.match[1]);
+  if (!plan || plan.recurring) {
+    await ctx.answerCbQuery(getI18n(ctx).t('plans.notFound'));
+    return;
+  }
+  await ctx.answerCbQuery();
+  await sendSubscriptionInvoice(ctx.from!.id, plan, ctx, true);
+});
+
+billingComposer.action(/^buy_plan:(.+)$/, async (ctx) => {
+  const plan = getPlanById(ctx.match[1]);
+  if (!plan) {
+    await ctx.answerCbQuery(getI18n(ctx).t('plans.notFound'));
+    return;
+  }
+  await ctx.answerCbQuery();
+  await sendSubscriptionInvoice(ctx.from!.id, plan, ctx);
+});
+
+export {
+  billingComposer,
+};
@@ -0,0 +1,535 @@
+import { Context, Markup } from 'telegraf';
+import { Filter, MongoServerError, ObjectId } from 'mongodb';
+import { randomUUID } from 'crypto';
+import { SuccessfulPayment } from 'telegraf/typings/core/types/typegram';
+
+import { db } from '../db';
+import {
+  SubscriptionPlan,
+  RequestPack,
+  SUBSCRIPTION_PLANS,
+  REQUEST_PACKS,
+  STAR_SUBSCRIPTION_PERIOD_SECONDS,
+  applyDiscount,
+} from '../plans';
+import { I18n, Translate } from '../i18n';
+import { telegram } from '../telegram';
+import { UserProfile, getUserI18n, getUserProfile, users } from '../users';
+import { getI18n } from '../context';
+import { expireSubscription, callRawApi, setSubscriptionAutoRenew } from './subscriptions';
+import { promoCodes } from './promo';
+
+// Поля подписок в звездах из Bot API 8.0, которых еще нет в типах Telegraf
+type StarSubscriptionPayment = SuccessfulPayment & {
+  subscription_expiration_date?: number;
+  is_recurring?: true;
+  is_first_recurring?: true;
+};
+
+interface Invoice {
+  _id?: ObjectId;
+  invoice_id: string;
+  user_id: number;
+  plan_id?: string; // Счет за подписку
+  days?: number;
+  recurring?: boolean;
+  pack_id?: string; // Счет за пакет запросов
+  requests?: number;
+  amount: number;
+  title: string;
+  description: string;
+  payload: string;
+  status?: InvoiceStatus; // У счетов, созданных до появления статусов, поля нет — считаем их 'created'
+  promo_code?: string;
+  discount_percent?: number;
+  gift?: boolean; // Подарок: после оплаты покупатель получает код, а не премиум
+  gift_code?: string;
+  created_at: Date;
+}
+
+type InvoiceStatus = 'created' | 'pre_checked' | 'paid' | 'refunded' | 'expired';
+
+interface Payment {
+  _id?: ObjectId;
+  payment_id: string; // telegram_payment_charge_id
+  invoice_id: string;
+  user_id: number;
+  amount: number;
+  status: 'pending' | 'completed' | 'refunded';
+  processing_since?: Date; // Пока 'pending': когда обработчик взял платеж, чтобы выдать оплаченное
+  created_at: Date;
+  refunded_at?: Date;
+}
+
+// Журнал всех изменений счетов, платежей и выданного за них премиума
+interface PaymentAuditEntry {
+  _id?: ObjectId;
+  entity: 'invoice' | 'payment' | 'subscription';
+  entityId: string;
+  userId: number;
+  from?: string;
+  to: string;
+  actorId?: number; // Администратор, если изменение сделано вручную
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const invoices = () => db.collection<Invoice>('invoices');
+const payments = () => db.collection<Payment>('payments');
+const paymentAuditLog = () => db.collection<PaymentAuditEntry>('payment_audit_log');
+
+const INVOICE_TTL_MS = 24 * 60 * 60 * 1000; // Неоплаченный счет истекает через сутки
+// Если обработчик платежа не завершился за это время, повторная доставка может выдать оплаченное заново
+const PAYMENT_CLAIM_TTL_MS = 60 * 1000;
+
+// Скидка по промокоду действует на любой счет, кроме подписки с автопродлением:
+// ее цену Telegram сохраняет для всех последующих списаний
+function getInvoiceDiscount(user: UserProfile, plan?: SubscriptionPlan) {
+  return plan?.recurring ? undefined : user.pendingDiscount;
+}
+
+async function createInvoice(userId: number, plan: SubscriptionPlan, t: Translate, gift = false): Promise<Invoice> {
+  const user = await getUserProfile(userId);
+  const discount = getInvoiceDiscount(user, plan);
+  const invoice: Invoice = {
+    invoice_id: randomUUID(),
+    user_id: userId,
+    plan_id: plan.id,
+    days: plan.days,
+    recurring: plan.recurring,
+    amount: discount ? applyDiscount(plan.price, discount.percent) : plan.price,
+    title: t(gift ? 'invoice.giftTitle' : 'invoice.premiumTitle'),
+    description: t(gift ? 'invoice.giftDescription' : 'invoice.premiumDescription', { plan: t(plan.titleKey) }),
+    payload: randomUUID(),
+    status: 'created',
+    ...(discount && { promo_code: discount.code, discount_percent: discount.percent }),
+    ...(gift && { gift: true }),
+    created_at: new Date()
+  };
+  
+  await invoices().insertOne(invoice);
+  await logPaymentEvent({
+    entity: 'invoice',
+    entityId: invoice.invoice_id,
+    userId,
+    to: 'created',
+    details: { plan_id: plan.id, amount: invoice.amount, promo_code: invoice.promo_code, gift }
+  });
+  return invoice;
+}
+
+async function createRequestPackInvoice(userId: number, pack: RequestPack, i18n: I18n): Promise<Invoice> {
+  const user = await getUserProfile(userId);
+  const discount = getInvoiceDiscount(user);
+  const invoice: Invoice = {
+    invoice_id: randomUUID(),
+    user_id: userId,
+    pack_id: pack.id,
+    requests: pack.requests,
+    amount: discount ? applyDiscount(pack.price, discount.percent) : pack.price,
+    title: i18n.t('invoice.packTitle'),
+    description: i18n.t('invoice.packDescription', { requests: i18n.formatCount('unit.requests', pack.requests) }),
+    payload: randomUUID(),
+    status: 'created',
+    ...(discount && { promo_code: discount.code, discount_percent: discount.percent }),
+    created_at: new Date()
+  };
+
+  await invoices().insertOne(invoice);
+  await logPaymentEvent({
+    entity: 'invoice',
+    entityId: invoice.invoice_id,
+    userId,
+    to: 'created',
+    details: { pack_id: pack.id, amount: invoice.amount, promo_code: invoice.promo_code }
+  });
+  return invoice;
+}
+
+async function logPaymentEvent(entry: Omit<PaymentAuditEntry, '_id' | 'createdAt'>) {
+  await paymentAuditLog().insertOne({ ...entry, createdAt: new Date() });
+}
+
+function invoiceStatusFilter(statuses: InvoiceStatus[]): Filter<Invoice> {
+  return statuses.includes('created')
+    ? { $or: [{ status: { $in: statuses } }, { status: { $exists: false } }] }
+    : { status: { $in: statuses } };
+}
+
+// Переводим счет в новое состояние, только если он сейчас в одном из ожидаемых
+async function transitionInvoice(
+  invoice: Invoice,
+  from: InvoiceStatus[],
+  to: InvoiceStatus,
+  details?: Record<string, unknown>,
+  actorId?: number
+): Promise<boolean> {
+  const result = await invoices().updateOne(
+    { invoice_id: invoice.invoice_id, ...invoiceStatusFilter(from) },
+    { $set: { status: to } }
+  );
+  if (result.modifiedCount === 0) {
+    return false;
+  }
+
+  await logPaymentEvent({
+    entity: 'invoice',
+    entityId: invoice.invoice_id,
+    userId: invoice.user_id,
+    from: invoice.status ?? 'created',
+    to,
+    actorId,
+    details
+  });
+  invoice.status = to;
+  return true;
+}
+
+// Берем платеж в обработку. Возвращает null, если платеж уже обработан или его прямо сейчас
+// обрабатывает другой запрос (повторная доставка обновления). Платеж, обработка которого
+// упала или зависла, можно взять снова.
+async function claimPayment(paymentData: Omit<Payment, '_id' | 'status' | 'created_at'>): Promise<Payment | null> {
+  const now = new Date();
+  const payment: Payment = {
+    ...paymentData,
+    status: 'pending',
+    processing_since: now,
+    created_at: now
+  };
+  
+  try {
+    await payments().insertOne(payment);
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      return payments().findOneAndUpdate(
+        {
+          payment_id: payment.payment_id,
+          status: 'pending',
+          processing_since: { $lt: new Date(now.getTime() - PAYMENT_CLAIM_TTL_MS) }
+        },
+        { $set: { processing_since: now } },
+        { returnDocument: 'after' }
+      );
+    }
+    throw error;
+  }
+
+  await logPaymentEvent({
+    entity: 'payment',
+    entityId: payment.payment_id,
+    userId: payment.user_id,
+    to: 'pending',
+    details: { invoice_id: payment.invoice_id, amount: payment.amount }
+  });
+  return payment;
+}
+
+// Оплаченное выдано — повторная доставка платежа больше ничего не изменит
+async function completePayment(payment: Payment) {
+  await payments().updateOne(
+    { payment_id: payment.payment_id, status: 'pending' },
+    { $set: { status: 'completed' }, $unset: { processing_since: '' } }
+  );
+  await logPaymentEvent({
+    entity: 'payment',
+    entityId: payment.payment_id,
+    userId: payment.user_id,
+    from: 'pending',
+    to: 'completed'
+  });
+}
+
+// Обработка упала до выдачи — следующая доставка платежа сможет взять его сразу
+async function releasePayment(payment: Payment) {
+  await payments().updateOne(
+    { payment_id: payment.payment_id, status: 'pending' },
+    { $set: { processing_since: new Date(0) } }
+  );
+}
+
+// Возврат звезд за платеж: помечаем платеж и счет возвращенными и забираем оплаченные им дни премиума
+async function refundStarPayment(paymentId: string, actorId: number): Promise<Payment> {
+  const payment = await payments().findOne({ payment_id: paymentId });
+  if (!payment) {
+    throw new Error('Payment not found');
+  }
+  if (payment.status === 'refunded') {
+    throw new Error('Payment already refunded');
+  }
+
+  await callRawApi('refundStarPayment', {
+    user_id: payment.user_id,
+    telegram_payment_charge_id: payment.payment_id,
+  });
+
+  await payments().updateOne(
+    { payment_id: paymentId },
+    { $set: { status: 'refunded', refunded_at: new Date() } }
+  );
+  await logPaymentEvent({
+    entity: 'payment',
+    entityId: paymentId,
+    userId: payment.user_id,
+    from: payment.status,
+    to: 'refunded',
+    actorId
+  });
+
+  const invoice = await invoices().findOne({ invoice_id: payment.invoice_id });
+  if (invoice) {
+    await transitionInvoice(invoice, ['paid'], 'refunded', { payment_id: paymentId }, actorId);
+  }
+  const recipient = await users().findOne({ userId: payment.user_id });
+  const i18n = getUserI18n(recipient ?? {});
+  const { t } = i18n;
+
+  // За пакет списываем купленные запросы, сколько осталось на балансе
+  if (invoice?.pack_id) {
+    await users().updateOne({ userId: payment.user_id }, [
+      { $set: { bonusRequests: { $max: [0, { $subtract: [{ $ifNull: ['$bonusRequests', 0] }, invoice.requests ?? 0] }] } } }
+    ]);
+    await telegram.sendMessage(
+      payment.user_id,
+      t('refund.packNotice', { amount: payment.amount })
+    ).catch(error => console.error(`Failed to notify user ${payment.user_id} about refund:`, error));
+    return { ...payment, status: 'refunded' };
+  }
+
+  // За подарок отключаем код, премиум покупателя не трогаем
+  if (invoice?.gift) {
+    await promoCodes().updateOne(
+      { giftInvoiceId: invoice.invoice_id },
+      { $set: { disabled: true } }
+    );
+    await telegram.sendMessage(
+      payment.user_id,
+      t('refund.giftNotice', { amount: payment.amount })
+    ).catch(error => console.error(`Failed to notify user ${payment.user_id} about refund:`, error));
+    return { ...payment, status: 'refunded' };
+  }
+
+  // Если срок продлевали и другие платежи, оставляем оплаченные ими дни
+  const currentExpiry = recipient?.subscription === 'premium' ? recipient.subscriptionExpiryDate : undefined;
+  const reducedExpiry = currentExpiry && invoice?.days
+    ? new Date(currentExpiry.getTime() - invoice.days * 24 * 60 * 60 * 1000)
+    : undefined;
+  const keepPremium = !!reducedExpiry && reducedExpiry > new Date();
+
+  // Возвращенное продление в звездах отменяем, иначе Telegram спишет следующий месяц
+  if (recipient && (invoice?.recurring || !keepPremium)) {
+    await setSubscriptionAutoRenew(recipient, false)
+      .catch(error => console.error(`Failed to cancel star subscription of user ${payment.user_id}:`, error));
+  }
+
+  if (keepPremium) {
+    await users().updateOne(
+      { userId: payment.user_id },
+      { $set: { subscriptionExpiryDate: reducedExpiry }, $unset: { expiryRemindersSent: '' } }
+    );
+    await logPaymentEvent({
+      entity: 'subscription',
+      entityId: String(payment.user_id),
+      userId: payment.user_id,
+      from: 'premium',
+      to: 'premium',
+      actorId,
+      details: { reason: 'refund', payment_id: paymentId, days: -invoice!.days!, expiry: reducedExpiry }
+    });
+    await telegram.sendMessage(
+      payment.user_id,
+      t('refund.premiumReducedNotice', { amount: payment.amount, date: i18n.formatDate(reducedExpiry) })
+    ).catch(error => console.error(`Failed to notify user ${payment.user_id} about refund:`, error));
+    return { ...payment, status: 'refunded' };
+  }
+
+  await expireSubscription(payment.user_id);
+  await logPaymentEvent({
+    entity: 'subscription',
+    entityId: String(payment.user_id),
+    userId: payment.user_id,
+    from: 'premium',
+    to: 'free',
+    actorId,
+    details: { reason: 'refund', payment_id: paymentId }
+  });
+
+  await telegram.sendMessage(
+    payment.user_id,
+    t('refund.premiumNotice', { amount: payment.amount })
+  ).catch(error => console.error(`Failed to notify user ${payment.user_id} about refund:`, error));
+
+  return { ...payment, status: 'refunded' };
+}
+
+// Неоплаченные счета старше суток больше не принимаем
+async function expireStaleInvoices() {
+  const stale = await invoices().find({
+    ...invoiceStatusFilter(['created', 'pre_checked']),
+    recurring: { $ne: true },
+    created_at: { $lt: new Date(Date.now() - INVOICE_TTL_MS) }
+  }).toArray();
+
+  for (const invoice of stale) {
+    await transitionInvoice(invoice, ['created', 'pre_checked'], 'expired');
+  }
+}
+
+// Показываем выбор тарифа. Активную подписку можно продлить — новые дни добавятся к текущему сроку.
+function formatPlanButton(t: Translate, user: UserProfile, plan: SubscriptionPlan): string {
+  const discount = getInvoiceDiscount(user, plan);
+  return discount
+    ? t('plans.buttonDiscount', { plan: t(plan.titleKey), price: applyDiscount(plan.price, discount.percent), fullPrice: plan.price })
+    : t('plans.button', { plan: t(plan.titleKey), price: plan.price });
+}
+
+async function sendPlanPicker(userId: number, ctx: Context): Promise<void> {
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+  const user = await getUserProfile(userId);
+  const expiryDate = user.subscription === 'premium' ? user.subscriptionExpiryDate : undefined;
+
+  let header = user.subscription === 'premium'
+    ? t('plans.premiumActive') +
+      (expiryDate ? '\n' + t('plans.validUntil', { date: i18n.formatDate(expiryDate) }) : '') +
+      '\n\n' + t('plans.extendHint')
+    : t('plans.choose');
+  if (user.pendingDiscount) {
+    header += '\n\n' + t('plans.discount', { percent: user.pendingDiscount.percent, code: user.pendingDiscount.code });
+  }
+
+  await ctx.reply(
+    header,
+    Markup.inlineKeyboard([
+      ...SUBSCRIPTION_PLANS.map(plan => [
+        Markup.button.callback(formatPlanButton(t, user, plan), `buy_plan:${plan.id}`)
+      ]),
+      [Markup.button.callback(t('plans.packsButton'), 'request_packs')],
+      [Markup.button.callback(t('plans.giftButton'), 'gift_premium')]
+    ])
+  );
+}
+
+async function sendRequestPackPicker(userId: number, ctx: Context): Promise<void> {
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+  const user = await getUserProfile(userId);
+  const discount = getInvoiceDiscount(user);
+  await ctx.reply(
+    t('packs.intro') +
+    (user.bonusRequests ? '\n' + t('packs.balance', { balance: i18n.formatCount('unit.requests', user.bonusRequests) }) : '') +
+    (discount ? '\n' + t('packs.discount', { percent: discount.percent, code: discount.code }) : ''),
+    Markup.inlineKeyboard(
+      REQUEST_PACKS.map(pack => [
+        Markup.button.callback(
+          t('packs.button', {
+            requests: i18n.formatCount('unit.requests', pack.requests),
+            price: discount ? applyDiscount(pack.price, discount.percent) : pack.price,
+          }),
+          `buy_pack:${pack.id}`
+        )
+      ])
+    )
+  );
+}
+
+async function sendRequestPackInvoice(userId: number, pack: RequestPack, ctx: Context): Promise<void> {
+  const i18n = getI18n(ctx);
+  const invoice = await createRequestPackInvoice(userId, pack, i18n);
+
+  try {
+    await ctx.telegram.sendInvoice(ctx.chat!.id, {
+      title: invoice.title,
+      description: invoice.description,
+      payload: invoice.payload,
+      provider_token: '',
+      currency: 'XTR',
+      prices: [{ label: i18n.t('invoice.packLabel', { requests: i18n.formatCount('unit.requests', pack.requests) }), amount: invoice.amount }],
+    });
+  } catch (error) {
+    console.error('Error sending invoice:', error);
+    await ctx.reply(i18n.t('common.invoiceError'));
+  }
+}
+
+async function sendGiftPlanPicker(userId: number, ctx: Context): Promise<void> {
+  const { t } = getI18n(ctx);
+  const user = await getUserProfile(userId);
+  await ctx.reply(
+    t('gift.choosePlan'),
+    Markup.inlineKeyboard(
+      SUBSCRIPTION_PLANS.filter(plan => !plan.recurring).map(plan => [
+        Markup.button.callback(formatPlanButton(t, user, plan), `gift_plan:${plan.id}`)
+      ])
+    )
+  );
+}
+
+// Добавляем функцию для отправки инвойса
+async function sendSubscriptionInvoice(userId: number, plan: SubscriptionPlan, ctx: Context, gift = false): Promise<void> {
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+  if (plan.recurring) {
+    const user = await getUserProfile(userId);
+    if (user.subscription === 'premium' && user.autoRenew) {
+      await ctx.reply(t('invoice.alreadyRecurring'));
+      return;
+    }
+  }
+
+  const invoice = await createInvoice(userId, plan, t, gift);
+  
+  try {
+    // Подписку с автопродлением Telegram позволяет оформить только по ссылке на счет
+    if (plan.recurring) {
+      const link = await callRawApi('createInvoiceLink', {
+        title: invoice.title,
+        description: invoice.description,
+        payload: invoice.payload,
+        currency: 'XTR',
+        prices: [{ label: t('invoice.recurringLabel', { plan: t(plan.titleKey) }), amount: invoice.amount }],
+        subscription_period: STAR_SUBSCRIPTION_PERIOD_SECONDS,
+      }) as string;
+      await ctx.reply(
+        t('invoice.recurringOffer', { amount: invoice.amount, days: i18n.formatCount('unit.days', plan.days) }),
+        Markup.inlineKeyboard([Markup.button.url(t('invoice.recurringButton', { amount: invoice.amount }), link)])
+      );
+      return;
+    }
+
+    await ctx.telegram.sendInvoice(ctx.chat!.id, {
+      title: invoice.title,
+      description: invoice.description,
+      payload: invoice.payload,
+      provider_token: "",
+      currency: 'XTR',
+      prices: [{ 
+        label: t(gift ? 'invoice.giftLabel' : 'invoice.premiumLabel', { plan: t(plan.titleKey) }), 
+        amount: invoice.amount
+      }],
+    });
+  } catch (error) {
+    console.error('Error sending invoice:', error);
+    await ctx.reply(t('common.invoiceError'));
+  }
+}
+
+export {
+  StarSubscriptionPayment,
+  Payment,
+  Invoice,
+  INVOICE_TTL_MS,
+  invoices,
+  payments,
+  logPaymentEvent,
+  transitionInvoice,
+  claimPayment,
+  completePayment,
+  releasePayment,
+  refundStarPayment,
+  expireStaleInvoices,
+  sendPlanPicker,
+  sendRequestPackPicker,
+  sendRequestPackInvoice,
+  sendGiftPlanPicker,
+  sendSubscriptionInvoice,
+};
@@ -0,0 +1,136 @@
+import { MongoServerError, ObjectId } from 'mongodb';
+import { randomUUID } from 'crypto';
+
+import { db } from '../db';
+import { I18n } from '../i18n';
+import { UserProfile, users } from '../users';
+import { grantPremium } from './subscriptions';
+import { Invoice, invoices } from './payments';
+
+type PromoKind = 'premium_days' | 'requests' | 'discount';
+
+interface PromoCode {
+  _id?: ObjectId;
+  code: string; // В верхнем регистре
+  kind: PromoKind;
+  value: number; // Дни премиума, запросы или процент скидки
+  maxUses?: number; // Без ограничения, если не задано
+  uses: number;
+  expiresAt?: Date;
+  disabled?: boolean;
+  createdBy: number;
+  giftInvoiceId?: string; // Код подарка, оплаченного этим счетом
+  createdAt: Date;
+}
+
+interface PromoRedemption {
+  _id?: ObjectId;
+  code: string;
+  userId: number;
+  redeemedAt: Date;
+}
+
+const promoCodes = () => db.collection<PromoCode>('promo_codes');
+const promoRedemptions = () => db.collection<PromoRedemption>('promo_redemptions');
+
+const GIFT_CODE_PREFIX = 'gift_';
+const GIFT_CODE_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+const PROMO_KINDS: Record<string, PromoKind> = {
+  days: 'premium_days',
+  requests: 'requests',
+  discount: 'discount',
+};
+
+function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Активирует промокод или подарочный код. Возвращает сообщение для пользователя.
+async function redeemPromoCode(user: UserProfile, rawCode: string, i18n: I18n): Promise<string> {
+  const { t } = i18n;
+  const code = normalizePromoCode(rawCode);
+
+  const promo = await promoCodes().findOne({ code });
+  if (!promo || promo.disabled) {
+    return t('promo.notFound');
+  }
+  if (promo.expiresAt && promo.expiresAt < new Date()) {
+    return t('promo.expired');
+  }
+
+  try {
+    await promoRedemptions().insertOne({ code, userId: user.userId, redeemedAt: new Date() });
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      return t('promo.alreadyRedeemed');
+    }
+    throw error;
+  }
+
+  // Счетчик увеличиваем, только пока лимит активаций не исчерпан
+  const claimed = await promoCodes().updateOne(
+    {
+      _id: promo._id,
+      $or: [{ maxUses: { $exists: false } }, { $expr: { $lt: ['$uses', '$maxUses'] } }]
+    },
+    { $inc: { uses: 1 } }
+  );
+  if (claimed.modifiedCount === 0) {
+    await promoRedemptions().deleteOne({ code, userId: user.userId });
+    return t(promo.giftInvoiceId ? 'promo.giftAlreadyRedeemed' : 'promo.limitReached');
+  }
+
+  switch (promo.kind) {
+    case 'premium_days': {
+      const expiryDate = await grantPremium(user, promo.value, undefined, promo.giftInvoiceId ? 'gift' : 'promo');
+      return t('promo.premiumActivated', { date: i18n.formatDate(expiryDate) });
+    }
+    case 'requests':
+      await users().updateOne(
+        { userId: user.userId },
+        { $inc: { bonusRequests: promo.value } }
+      );
+      return t('promo.requestsActivated', { requests: i18n.formatCount('unit.bonusRequests', promo.value) });
+    case 'discount':
+      await users().updateOne(
+        { userId: user.userId },
+        { $set: { pendingDiscount: { code, percent: promo.value } } }
+      );
+      return t('promo.discountActivated', { percent: promo.value });
+  }
+}
+
+// Код подарка создается после оплаты счета-подарка
+async function createGiftCode(invoice: Invoice): Promise<PromoCode> {
+  // Повторная обработка того же платежа возвращает уже выпущенный код
+  const existing = await promoCodes().findOne({ giftInvoiceId: invoice.invoice_id });
+  if (existing) return existing;
+
+  const promo: PromoCode = {
+    code: randomUUID().replace(/-/g, '').slice(0, 10).toUpperCase(),
+    kind: 'premium_days',
+    value: invoice.days ?? 0,
+    maxUses: 1,
+    uses: 0,
+    expiresAt: new Date(Date.now() + GIFT_CODE_TTL_MS),
+    createdBy: invoice.user_id,
+    giftInvoiceId: invoice.invoice_id,
+    createdAt: new Date()
+  };
+  await promoCodes().insertOne(promo);
+  await invoices().updateOne(
+    { invoice_id: invoice.invoice_id },
+    { $set: { gift_code: promo.code } }
+  );
+  return promo;
+}
+
+export {
+  PromoCode,
+  GIFT_CODE_PREFIX,
+  PROMO_KINDS,
+  promoCodes,
+  normalizePromoCode,
+  redeemPromoCode,
+  createGiftCode,
+};
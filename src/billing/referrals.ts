@@ -0,0 +1,150 @@
+import { MongoServerError, ObjectId } from 'mongodb';
+import { randomUUID } from 'crypto';
+
+import { db } from '../db';
+import { telegram } from '../telegram';
+import { UserProfile, getUserI18n, getUserProfile, users } from '../users';
+import { grantPremium } from './subscriptions';
+
+// Приглашение по реферальной ссылке. У каждого пользователя может быть только один пригласивший.
+interface Referral {
+  _id?: ObjectId;
+  referrerId: number;
+  inviteeId: number;
+  createdAt: Date;
+  activatedAt?: Date; // Приглашенный отправил первое сообщение
+  paidAt?: Date; // Приглашенный впервые оплатил подписку
+  earnedRequests: number;
+  earnedPremiumDays: number;
+}
+
+const referrals = () => db.collection<Referral>('referrals');
+
+const REFERRAL_CODE_PREFIX = 'ref_';
+const REFERRAL_ACTIVATION_BONUS_REQUESTS = 20;
+const REFERRAL_PAYMENT_BONUS_DAYS = 7;
+
+// Код создается при первом запросе ссылки
+async function ensureReferralCode(user: UserProfile): Promise<string> {
+  if (user.referralCode) return user.referralCode;
+
+  for (;;) {
+    const code = randomUUID().replace(/-/g, '').slice(0, 8);
+    try {
+      await users().updateOne({ userId: user.userId, referralCode: { $exists: false } }, { $set: { referralCode: code } });
+    } catch (error) {
+      // Такой код уже есть у другого пользователя — пробуем другой
+      if (error instanceof MongoServerError && error.code === 11000) continue;
+      throw error;
+    }
+    const updated = await users().findOne({ userId: user.userId }, { projection: { referralCode: 1 } });
+    user.referralCode = updated?.referralCode ?? code;
+    return user.referralCode;
+  }
+}
+
+function buildReferralLink(botUsername: string, code: string): string {
+  return `https://t.me/${botUsername}?start=${REFERRAL_CODE_PREFIX}${code}`;
+}
+
+// Привязываем нового пользователя к пригласившему. Вызывается только для только что созданного профиля,
+// поэтому пригласить уже существующего пользователя (и замкнуть цепочку) нельзя.
+async function registerReferral(invitee: UserProfile, code: string): Promise<boolean> {
+  const referrer = await users().findOne({ referralCode: code });
+  if (!referrer || referrer.userId === invitee.userId || referrer.referredBy === invitee.userId) {
+    return false;
+  }
+
+  try {
+    await referrals().insertOne({
+      referrerId: referrer.userId,
+      inviteeId: invitee.userId,
+      createdAt: new Date(),
+      earnedRequests: 0,
+      earnedPremiumDays: 0,
+    });
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) return false;
+    throw error;
+  }
+
+  await users().updateOne({ userId: invitee.userId }, { $set: { referredBy: referrer.userId } });
+  invitee.referredBy = referrer.userId;
+  return true;
+}
+
+// Бонус пригласившему за первое сообщение приглашенного
+async function rewardReferralActivation(inviteeId: number) {
+  const referral = await referrals().findOneAndUpdate(
+    { inviteeId, activatedAt: { $exists: false } },
+    { $set: { activatedAt: new Date() }, $inc: { earnedRequests: REFERRAL_ACTIVATION_BONUS_REQUESTS } }
+  );
+  if (!referral) return;
+
+  const referrer = await users().findOneAndUpdate(
+    { userId: referral.referrerId },
+    { $inc: { bonusRequests: REFERRAL_ACTIVATION_BONUS_REQUESTS } }
+  );
+  const i18n = getUserI18n(referrer ?? {});
+  await telegram.sendMessage(
+    referral.referrerId,
+    i18n.t('referral.activationReward', {
+      requests: i18n.formatCount('unit.bonusRequests', REFERRAL_ACTIVATION_BONUS_REQUESTS)
+    })
+  ).catch(error => console.error(`Failed to notify referrer ${referral.referrerId}:`, error));
+}
+
+// Бонус пригласившему за первую оплату приглашенного
+async function rewardReferralPayment(inviteeId: number) {
+  const referral = await referrals().findOneAndUpdate(
+    { inviteeId, paidAt: { $exists: false } },
+    { $set: { paidAt: new Date() }, $inc: { earnedPremiumDays: REFERRAL_PAYMENT_BONUS_DAYS } }
+  );
+  if (!referral) return;
+
+  const referrer = await getUserProfile(referral.referrerId);
+  const expiryDate = await grantPremium(referrer, REFERRAL_PAYMENT_BONUS_DAYS, undefined, 'referral');
+  const i18n = getUserI18n(referrer);
+  await telegram.sendMessage(
+    referral.referrerId,
+    i18n.t('referral.paymentReward', {
+      days: i18n.formatCount('unit.days', REFERRAL_PAYMENT_BONUS_DAYS),
+      date: i18n.formatDate(expiryDate)
+    })
+  ).catch(error => console.error(`Failed to notify referrer ${referral.referrerId}:`, error));
+}
+
+async function getReferralStats(userId: number) {
+  const [stats] = await referrals().aggregate<{
+    invited: number,
+    activated: number,
+    paid: number,
+    earnedRequests: number,
+    earnedPremiumDays: number,
+  }>([
+    { $match: { referrerId: userId } },
+    {
+      $group: {
+        _id: null,
+        invited: { $sum: 1 },
+        activated: { $sum: { $cond: [{ $ifNull: ['$activatedAt', false] }, 1, 0] } },
+        paid: { $sum: { $cond: [{ $ifNull: ['$paidAt', false] }, 1, 0] } },
+        earnedRequests: { $sum: '$earnedRequests' },
+        earnedPremiumDays: { $sum: '$earnedPremiumDays' },
+      }
+    }
+  ]).toArray();
+  return stats ?? { invited: 0, activated: 0, paid: 0, earnedRequests: 0, earnedPremiumDays: 0 };
+}
+
+export {
+  REFERRAL_CODE_PREFIX,
+  REFERRAL_ACTIVATION_BONUS_REQUESTS,
+  REFERRAL_PAYMENT_BONUS_DAYS,
+  ensureReferralCode,
+  buildReferralLink,
+  registerReferral,
+  rewardReferralActivation,
+  rewardReferralPayment,
+  getReferralStats,
+};
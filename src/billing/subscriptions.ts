@@ -0,0 +1,174 @@
+import { Context, Markup } from 'telegraf';
+
+import { extendExpiryDate } from '../plans';
+import { telegram } from '../telegram';
+import { UserProfile, getUserI18n, users } from '../users';
+import { getI18n } from '../context';
+import { logPaymentEvent, expireStaleInvoices } from './payments';
+
+// Подписки
+const EXPIRY_REMINDER_DAYS = [3, 1]; // За сколько дней напоминать об окончании подписки
+const RENEWAL_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000; // Ждем платеж автопродления после окончания срока
+const SUBSCRIPTION_TASKS_INTERVAL_MS = 60 * 60 * 1000;
+
+function isSubscriptionExpired(user: Pick<UserProfile, 'subscription' | 'subscriptionExpiryDate' | 'autoRenew'>): boolean {
+  if (user.subscription !== 'premium' || !user.subscriptionExpiryDate) return false;
+  // При автопродлении даем Telegram время провести очередной платеж
+  const gracePeriod = user.autoRenew ? RENEWAL_GRACE_PERIOD_MS : 0;
+  return Date.now() > user.subscriptionExpiryDate.getTime() + gracePeriod;
+}
+
+async function checkAndUpdateSubscriptionStatus(userId: number, ctx?: Context): Promise<void> {
+  const user = await users().findOne({ userId });
+  
+  if (!user) return;
+
+  if (isSubscriptionExpired(user)) {
+    // Подписка истекла, сбрасываем на free
+    await expireSubscription(userId);
+
+    // Если передан контекст, отправляем уведомление
+    if (ctx) {
+      const { t } = getI18n(ctx);
+      await ctx.reply(
+        t('subscription.expired'),
+        Markup.inlineKeyboard([
+          Markup.button.callback(t('subscription.renewButton'), 'buy_premium')
+        ])
+      );
+    }
+  }
+}
+
+async function expireSubscription(userId: number) {
+  await users().updateOne(
+    { userId },
+    { 
+      $set: { 
+        subscription: 'free',
+        autoRenew: false
+      },
+      $unset: { subscriptionExpiryDate: '', starSubscriptionChargeId: '', expiryRemindersSent: '' }
+    }
+  );
+}
+
+type RawApiCall = (method: string, payload: Record<string, unknown>) => Promise<unknown>;
+
+// Вызов методов Bot API, которых еще нет в типах Telegraf
+function callRawApi(method: string, payload: Record<string, unknown>) {
+  return (telegram.callApi as unknown as RawApiCall).call(telegram, method, payload);
+}
+
+// Включаем или отключаем автопродление подписки в звездах. Оплаченный период сохраняется.
+async function setSubscriptionAutoRenew(user: UserProfile, autoRenew: boolean): Promise<boolean> {
+  if (!user.starSubscriptionChargeId) return false;
+
+  await callRawApi('editUserStarSubscription', {
+    user_id: user.userId,
+    telegram_payment_charge_id: user.starSubscriptionChargeId,
+    is_canceled: !autoRenew,
+  });
+
+  const result = await users().updateOne({ userId: user.userId }, { $set: { autoRenew } });
+  return result.matchedCount > 0;
+}
+
+// Уведомляем об истечении подписки и напоминаем о скором окончании.
+// Запускается по расписанию (Vercel Cron или таймер в режиме разработки).
+async function runSubscriptionTasks(): Promise<void> {
+  const now = new Date();
+
+  await expireStaleInvoices();
+
+  const expired = await users().find({ subscription: 'premium', subscriptionExpiryDate: { $lt: now } }).toArray();
+
+  for (const user of expired) {
+    // При автопродлении даем Telegram время провести очередной платеж
+    if (user.autoRenew && now.getTime() < user.subscriptionExpiryDate!.getTime() + RENEWAL_GRACE_PERIOD_MS) {
+      continue;
+    }
+    await expireSubscription(user.userId);
+    const { t } = getUserI18n(user);
+    await telegram.sendMessage(
+      user.userId,
+      t('subscription.expired'),
+      Markup.inlineKeyboard([Markup.button.callback(t('subscription.renewButton'), 'buy_premium')])
+    ).catch(error => console.error(`Failed to notify user ${user.userId} about expiry:`, error));
+  }
+
+  // Начинаем с ближайшего срока, чтобы не отправить сразу два напоминания
+  for (const days of [...EXPIRY_REMINDER_DAYS].sort((a, b) => a - b)) {
+    const candidates = await users().find({
+      subscription: 'premium',
+      subscriptionExpiryDate: { $gt: now, $lte: new Date(now.getTime() + days * 24 * 60 * 60 * 1000) },
+      expiryRemindersSent: { $ne: days }
+    }).toArray();
+
+    for (const user of candidates) {
+      // Более раннее напоминание уже неактуально, если до окончания осталось меньше
+      await users().updateOne(
+        { userId: user.userId },
+        { $addToSet: { expiryRemindersSent: { $each: EXPIRY_REMINDER_DAYS.filter(item => item >= days) } } }
+      );
+      const i18n = getUserI18n(user);
+      const date = i18n.formatDate(user.subscriptionExpiryDate!);
+      const text = i18n.t(user.autoRenew ? 'subscription.autoRenewReminder' : 'subscription.expiryReminder', { date });
+
+      await telegram.sendMessage(
+        user.userId,
+        text,
+        user.autoRenew ? {} : Markup.inlineKeyboard([Markup.button.callback(i18n.t('subscription.extendButton'), 'buy_premium')])
+      ).catch(error => console.error(`Failed to send expiry reminder to user ${user.userId}:`, error));
+    }
+  }
+}
+
+async function grantPremium(user: UserProfile, days: number, actorId?: number, reason = 'grant'): Promise<Date> {
+  const currentExpiry = user.subscription === 'premium' ? user.subscriptionExpiryDate : undefined;
+  const expiryDate = extendExpiryDate(currentExpiry, days);
+  await users().updateOne(
+    { userId: user.userId },
+    {
+      $set: { subscription: 'premium', subscriptionExpiryDate: expiryDate },
+      $unset: { expiryRemindersSent: '' }
+    }
+  );
+  await logPaymentEvent({
+    entity: 'subscription',
+    entityId: String(user.userId),
+    userId: user.userId,
+    from: user.subscription,
+    to: 'premium',
+    actorId,
+    details: { reason, days, expires_at: expiryDate }
+  });
+  return expiryDate;
+}
+
+async function revokePremium(user: UserProfile, actorId: number) {
+  // Иначе Telegram продолжит списывать звезды и следующее продление вернет премиум
+  await setSubscriptionAutoRenew(user, false);
+  await expireSubscription(user.userId);
+  await logPaymentEvent({
+    entity: 'subscription',
+    entityId: String(user.userId),
+    userId: user.userId,
+    from: user.subscription,
+    to: 'free',
+    actorId,
+    details: { reason: 'revoke' }
+  });
+}
+
+export {
+  isSubscriptionExpired,
+  SUBSCRIPTION_TASKS_INTERVAL_MS,
+  checkAndUpdateSubscriptionStatus,
+  expireSubscription,
+  callRawApi,
+  setSubscriptionAutoRenew,
+  runSubscriptionTasks,
+  grantPremium,
+  revokePremium,
+};
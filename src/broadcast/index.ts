@@ -0,0 +1,316 @@
+import { Markup, Telegram, TelegramError } from 'telegraf';
+import { MessageEntity } from 'telegraf/typings/core/types/typegram';
+import { Document, Filter, ObjectId } from 'mongodb';
+import createDebug from 'debug';
+
+import { db } from '../db';
+import { users } from '../users';
+import { DEFAULT_LOCALE, Locale, Translate, createI18n } from '../i18n';
+
+const debug = createDebug('bot:broadcast');
+
+// Telegram допускает около 30 сообщений в секунду, оставляем запас
+const SEND_INTERVAL_MS = 40;
+const USERS_BATCH_SIZE = 100;
+// Запас на завершение последней отправки: после истечения аренды рассылку подхватит другой вызов
+const LEASE_MARGIN_MS = 30 * 1000;
+
+type BroadcastSegment = 'all' | 'free' | 'premium' | 'active';
+
+interface BroadcastButton {
+  text: string;
+  url: string;
+}
+
+interface Broadcast {
+  _id?: ObjectId;
+  adminId: number;
+  locale?: Locale; // Язык администратора для отчета о завершении
+  segment: BroadcastSegment;
+  activeDays?: number;
+  activeSince?: Date; // Для сегмента active: активность отсчитывается от момента создания рассылки
+  text: string;
+  entities?: MessageEntity[];
+  photoFileId?: string;
+  buttons: BroadcastButton[];
+  status: 'draft' | 'sending' | 'completed' | 'cancelled';
+  cursor: number; // userId последнего обработанного получателя
+  recipients: number;
+  sent: number;
+  failed: number;
+  blocked: number;
+  leaseUntil?: Date; // Пока аренда не истекла, рассылку отправляет только один вызов
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+type BroadcastDraft = Pick<Broadcast, 'adminId' | 'locale' | 'segment' | 'activeDays' | 'text' | 'entities' | 'photoFileId' | 'buttons'>;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const broadcasts = () => db.collection<Broadcast>('broadcasts');
+
+function parseSegment(value: string | undefined): { segment: BroadcastSegment, activeDays?: number } | null {
+  if (value === 'all' || value === 'free' || value === 'premium') {
+    return { segment: value };
+  }
+  const active = /^active:(\d+)$/.exec(value ?? '');
+  if (active && parseInt(active[1], 10) > 0) {
+    return { segment: 'active', activeDays: parseInt(active[1], 10) };
+  }
+  return null;
+}
+
+function describeSegment(t: Translate, broadcast: Pick<Broadcast, 'segment' | 'activeDays'>): string {
+  switch (broadcast.segment) {
+    case 'free':
+      return t('broadcast.segmentFree');
+    case 'premium':
+      return t('broadcast.segmentPremium');
+    case 'active':
+      return t('broadcast.segmentActive', { days: broadcast.activeDays ?? 0 });
+    default:
+      return t('broadcast.segmentAll');
+  }
+}
+
+// Получатели: заблокированных администратором и заблокировавших бота пропускаем
+function buildRecipientsFilter(broadcast: Pick<Broadcast, 'segment' | 'activeSince'>): Filter<Document> {
+  const filter: Filter<Document> = { banned: { $ne: true }, blockedBot: { $ne: true } };
+  if (broadcast.segment === 'free' || broadcast.segment === 'premium') {
+    filter.subscription = broadcast.segment;
+  }
+  if (broadcast.segment === 'active') {
+    filter.lastActiveAt = { $gte: broadcast.activeSince };
+  }
+  return filter;
+}
+
+function getActiveSince(activeDays: number | undefined, now = new Date()): Date | undefined {
+  return activeDays ? new Date(now.getTime() - activeDays * 24 * 60 * 60 * 1000) : undefined;
+}
+
+async function countRecipients(draft: Pick<Broadcast, 'segment' | 'activeDays'>): Promise<number> {
+  const filter = buildRecipientsFilter({ segment: draft.segment, activeSince: getActiveSince(draft.activeDays) });
+  return users().countDocuments(filter);
+}
+
+async function createBroadcastDraft(draft: BroadcastDraft): Promise<Broadcast> {
+  const broadcast: Broadcast = {
+    ...draft,
+    status: 'draft',
+    cursor: 0,
+    recipients: 0,
+    sent: 0,
+    failed: 0,
+    blocked: 0,
+    createdAt: new Date(),
+  };
+  const { insertedId } = await broadcasts().insertOne(broadcast);
+  broadcast._id = insertedId;
+  return broadcast;
+}
+
+async function getBroadcast(id: ObjectId): Promise<Broadcast | null> {
+  return broadcasts().findOne({ _id: id });
+}
+
+// Ставим черновик в очередь. Возвращает null, если рассылка уже запущена или отменена.
+async function startBroadcast(id: ObjectId): Promise<Broadcast | null> {
+  const draft = await broadcasts().findOne({ _id: id, status: 'draft' });
+  if (!draft) return null;
+
+  const now = new Date();
+  const activeSince = getActiveSince(draft.activeDays, now);
+  const recipients = await users().countDocuments(
+    buildRecipientsFilter({ segment: draft.segment, activeSince })
+  );
+  return broadcasts().findOneAndUpdate(
+    { _id: id, status: 'draft' },
+    { $set: { status: 'sending', activeSince, recipients, startedAt: now } },
+    { returnDocument: 'after' }
+  );
+}
+
+async function cancelBroadcast(id: ObjectId): Promise<boolean> {
+  const result = await broadcasts().updateOne(
+    { _id: id, status: { $in: ['draft', 'sending'] } },
+    { $set: { status: 'cancelled', completedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
+
+function buildBroadcastMarkup(buttons: BroadcastButton[]) {
+  return buttons.length
+    ? Markup.inlineKeyboard(buttons.map(button => [Markup.button.url(button.text, button.url)]))
+    : undefined;
+}
+
+// Отправляет сообщение рассылки в чат — и получателям, и администратору для предпросмотра
+async function sendBroadcastMessage(telegram: Telegram, chatId: number, broadcast: Pick<Broadcast, 'text' | 'entities' | 'photoFileId' | 'buttons'>) {
+  const markup = buildBroadcastMarkup(broadcast.buttons);
+  if (broadcast.photoFileId) {
+    await telegram.sendPhoto(chatId, broadcast.photoFileId, {
+      caption: broadcast.text || undefined,
+      caption_entities: broadcast.entities,
+      ...markup,
+    });
+  } else {
+    await telegram.sendMessage(chatId, broadcast.text, { entities: broadcast.entities, ...markup });
+  }
+}
+
+type DeliveryResult = 'sent' | 'failed' | 'blocked' | 'deadline';
+
+async function deliver(telegram: Telegram, broadcast: Broadcast, userId: number, deadline: number): Promise<DeliveryResult> {
+  for (;;) {
+    try {
+      await sendBroadcastMessage(telegram, userId, broadcast);
+      return 'sent';
+    } catch (error) {
+      if (error instanceof TelegramError && error.code === 403) {
+        return 'blocked';
+      }
+      const retryAfter = error instanceof TelegramError && error.code === 429
+        ? error.parameters?.retry_after
+        : undefined;
+      if (retryAfter === undefined) {
+        debug(`Broadcast ${broadcast._id} to ${userId} failed: ${(error as Error).message}`);
+        return 'failed';
+      }
+      // Не успеваем дождаться — получатель останется следующему вызову
+      if (Date.now() + retryAfter * 1000 >= deadline) {
+        return 'deadline';
+      }
+      debug(`Flood wait: retrying in ${retryAfter}s`);
+      await sleep(retryAfter * 1000);
+    }
+  }
+}
+
+async function finishBroadcast(telegram: Telegram, broadcast: Broadcast) {
+  const result = await broadcasts().findOneAndUpdate(
+    { _id: broadcast._id, status: 'sending' },
+    { $set: { status: 'completed', completedAt: new Date() }, $unset: { leaseUntil: '' } },
+    { returnDocument: 'after' }
+  );
+  if (!result) return;
+
+  const { t } = createI18n(broadcast.locale ?? DEFAULT_LOCALE);
+  await telegram.sendMessage(broadcast.adminId, formatBroadcastReport(t, result))
+    .catch(error => console.error(`Failed to send broadcast report to ${broadcast.adminId}:`, error));
+}
+
+function formatBroadcastReport(t: Translate, broadcast: Broadcast): string {
+  const status = broadcast.status === 'completed'
+    ? t('broadcast.statusCompleted')
+    : broadcast.status === 'cancelled' ? t('broadcast.statusCancelled') : t('broadcast.statusSending');
+  return t('broadcast.report', {
+    status,
+    segment: describeSegment(t, broadcast),
+    recipients: broadcast.recipients,
+    sent: broadcast.sent,
+    blocked: broadcast.blocked,
+    failed: broadcast.failed,
+  });
+}
+
+// Отправляем, пока не истечет отведенное время, и сохраняем прогресс после каждого получателя
+async function deliverUntil(telegram: Telegram, broadcast: Broadcast, deadline: number): Promise<void> {
+  const filter = buildRecipientsFilter(broadcast);
+  let cursor = broadcast.cursor;
+
+  while (Date.now() < deadline) {
+    const batch = await users()
+      .find({ ...filter, userId: { $gt: cursor } }, { projection: { userId: 1 } })
+      .sort({ userId: 1 })
+      .limit(USERS_BATCH_SIZE)
+      .toArray();
+    if (batch.length === 0) {
+      await finishBroadcast(telegram, broadcast);
+      return;
+    }
+
+    for (const { userId } of batch) {
+      if (Date.now() >= deadline) return;
+
+      // Администратор мог отменить рассылку, пока она идет
+      const current = await broadcasts().findOne({ _id: broadcast._id }, { projection: { status: 1 } });
+      if (current?.status !== 'sending') return;
+
+      const startedAt = Date.now();
+      const result = await deliver(telegram, broadcast, userId, deadline);
+      if (result === 'deadline') return;
+
+      if (result === 'blocked') {
+        await users().updateOne({ userId }, { $set: { blockedBot: true } });
+      }
+      cursor = userId;
+      await broadcasts().updateOne(
+        { _id: broadcast._id },
+        { $set: { cursor }, $inc: { [result]: 1 } }
+      );
+
+      const elapsed = Date.now() - startedAt;
+      if (elapsed < SEND_INTERVAL_MS) {
+        await sleep(SEND_INTERVAL_MS - elapsed);
+      }
+    }
+  }
+}
+
+// Обрабатывает очередь рассылок в пределах timeBudgetMs. Рассылка занимается арендой,
+// поэтому параллельные вызовы не отправят одно сообщение дважды. Возвращает true, если работа осталась.
+async function processBroadcastQueue(telegram: Telegram, timeBudgetMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeBudgetMs;
+
+  while (Date.now() < deadline) {
+    const now = new Date();
+    const broadcast = await broadcasts().findOneAndUpdate(
+      {
+        status: 'sending',
+        $or: [{ leaseUntil: { $exists: false } }, { leaseUntil: { $lt: now } }],
+      },
+      { $set: { leaseUntil: new Date(deadline + LEASE_MARGIN_MS) } },
+      { sort: { createdAt: 1 }, returnDocument: 'after' }
+    );
+    if (!broadcast) {
+      return false;
+    }
+
+    debug(`Processing broadcast ${broadcast._id} from user ${broadcast.cursor}`);
+    await deliverUntil(telegram, broadcast, deadline);
+    await broadcasts().updateOne({ _id: broadcast._id, status: 'sending' }, { $unset: { leaseUntil: '' } });
+  }
+
+  // Рассылки, которые держит другой вызов, он продолжит сам
+  return hasStalledBroadcast();
+}
+
+// Рассылка, которую сейчас никто не отправляет (например, прервался вызов на Vercel)
+async function hasStalledBroadcast(): Promise<boolean> {
+  const count = await broadcasts().countDocuments({
+    status: 'sending',
+    $or: [{ leaseUntil: { $exists: false } }, { leaseUntil: { $lt: new Date() } }],
+  }, { limit: 1 });
+  return count > 0;
+}
+
+export {
+  Broadcast,
+  BroadcastButton,
+  BroadcastDraft,
+  BroadcastSegment,
+  parseSegment,
+  describeSegment,
+  countRecipients,
+  createBroadcastDraft,
+  getBroadcast,
+  startBroadcast,
+  cancelBroadcast,
+  sendBroadcastMessage,
+  formatBroadcastReport,
+  processBroadcastQueue,
+  hasStalledBroadcast,
+};
@@ -0,0 +1,289 @@
+import { Context, Markup } from 'telegraf';
+import { ObjectId } from 'mongodb';
+import { ChatCompletionContentPart, ChatCompletionMessageParam } from 'openai/resources';
+
+import { db } from '../db';
+import { createStreamRenderer } from '../renderer';
+import { ModelConfig, getMaxTokens, resolveModel } from '../models';
+import { Persona, resolvePersona } from '../personas';
+import { BOT_TOKEN } from '../config';
+import { UserProfile, getUserProfile } from '../users';
+import { getI18n, getReplyExtra } from '../context';
+import {
+  openai,
+  estimateTokens,
+  estimatePromptTokens,
+  estimateMessagesTokens,
+} from '../llm';
+import { QuotaCharge, recordUsage } from '../usage';
+import {
+  ChatThread,
+  MIN_HISTORY_TOKEN_BUDGET,
+  getChatHistory,
+  saveChatMessage,
+  generateThreadTitle,
+  chatMessages,
+} from './threads';
+import { findRelevantChunks, buildKnowledgeBaseMessage } from '../files/knowledge';
+
+interface Generation {
+  _id?: ObjectId;
+  userId: number; // Чей лимит расходует ответ
+  requesterId?: number; // Участник группы, который спросил, если лимит расходуется не его
+  chatId: number;
+  threadId: ObjectId;
+  prompt: string | Array<ChatCompletionContentPart>; // Ссылки на файлы Telegram хранятся без токена бота
+  modelKey: string;
+  useKnowledgeBase: boolean;
+  status: 'streaming' | 'stopped' | 'completed' | 'failed';
+  createdAt: Date;
+}
+
+const generations = () => db.collection<Generation>('generations');
+
+const STOP_CHECK_INTERVAL_MS = 1000;
+const CONTINUE_PROMPT = 'Continue your previous answer exactly from where it stopped. Do not repeat what was already written.';
+const TELEGRAM_FILE_URL_PREFIX = `https://api.telegram.org/file/bot${BOT_TOKEN}/`;
+const STORED_FILE_URL_PREFIX = 'tg-file:';
+
+// Генерации, идущие в этом процессе, — чтобы остановить их без ожидания проверки в базе
+const activeGenerations = new Map<string, AbortController>();
+
+// Свой системный промпт доступен только при активной премиум подписке
+function getUserPersona(user: UserProfile): Persona {
+  return resolvePersona(
+    user.persona,
+    user.subscription === 'premium' ? user.customSystemPrompt : undefined
+  );
+}
+
+// Ссылка на файл Telegram содержит токен бота, поэтому в базе храним только путь к файлу
+function toStoredPrompt(prompt: string | Array<ChatCompletionContentPart>): Generation['prompt'] {
+  if (typeof prompt === 'string') return prompt;
+  return prompt.map(part => part.type === 'image_url'
+    ? { ...part, image_url: { ...part.image_url, url: part.image_url.url.replace(TELEGRAM_FILE_URL_PREFIX, STORED_FILE_URL_PREFIX) } }
+    : part
+  );
+}
+
+function fromStoredPrompt(prompt: Generation['prompt']): string | Array<ChatCompletionContentPart> {
+  if (typeof prompt === 'string') return prompt;
+  return prompt.map(part => part.type === 'image_url'
+    ? { ...part, image_url: { ...part.image_url, url: part.image_url.url.replace(STORED_FILE_URL_PREFIX, TELEGRAM_FILE_URL_PREFIX) } }
+    : part
+  );
+}
+
+async function isGenerationStopped(generationId: ObjectId): Promise<boolean> {
+  const generation = await generations().findOne(
+    { _id: generationId, status: 'stopped' },
+    { projection: { _id: 1 } }
+  );
+  return Boolean(generation);
+}
+
+// Последний завершенный ответ в разговоре — только его можно перегенерировать или продолжить
+async function getLatestGeneration(threadId: ObjectId): Promise<Generation | null> {
+  return generations()
+    .find({ threadId, status: { $in: ['completed', 'stopped'] } })
+    .sort({ createdAt: -1 })
+    .limit(1)
+    .next();
+}
+
+async function sendToOpenRouterStream(
+  userId: number,
+  thread: ChatThread,
+  prompt: string | Array<ChatCompletionContentPart>,
+  ctx: Context,
+  options: {
+    useKnowledgeBase?: boolean,
+    model?: ModelConfig,
+    replaceGenerationId?: ObjectId,
+    charge?: QuotaCharge
+  } = {}
+): Promise<string | undefined> {
+  const { useKnowledgeBase = true, replaceGenerationId, charge } = options;
+  const { t } = getI18n(ctx);
+  let generationId: ObjectId | undefined;
+  try {
+    // Получаем профиль пользователя для проверки подписки
+    const user = await getUserProfile(userId);
+    const model = options.model ?? resolveModel(user.subscription, user.selectedModel);
+
+    const historyBudget = Math.max(
+      MIN_HISTORY_TOKEN_BUDGET,
+      model.historyTokenBudget - estimatePromptTokens(prompt)
+    );
+    // Продолжение не сохраняется в разговоре; остальные вопросы (и при перегенерации тоже) уже в нем
+    const history = await getChatHistory(thread.userId, thread._id!, historyBudget, {
+      excludeGenerationId: replaceGenerationId,
+      omitPendingQuestion: prompt !== CONTINUE_PROMPT,
+    });
+    const persona = getUserPersona(user);
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: persona.systemPrompt },
+      ...history.map(msg => ({
+        role: msg.role,
+        content: msg.content
+      })),
+      { role: 'user', content: prompt }
+    ];
+
+    // Подмешиваем релевантные фрагменты из загруженных документов
+    if (useKnowledgeBase && typeof prompt === 'string') {
+      try {
+        const relevantChunks = await findRelevantChunks(userId, prompt);
+        if (relevantChunks.length > 0) {
+          messages.splice(messages.length - 1, 0, {
+            role: 'system',
+            content: buildKnowledgeBaseMessage(relevantChunks)
+          });
+        }
+      } catch (error) {
+        console.error('Error retrieving document chunks:', error);
+      }
+    }
+
+    const result = await generations().insertOne({
+      userId,
+      ...(ctx.from && ctx.from.id !== userId && { requesterId: ctx.from.id }),
+      chatId: ctx.chat!.id,
+      threadId: thread._id!,
+      prompt: toStoredPrompt(prompt),
+      modelKey: model.key,
+      useKnowledgeBase,
+      status: 'streaming',
+      createdAt: new Date()
+    });
+    generationId = result.insertedId;
+
+    const abortController = new AbortController();
+    activeGenerations.set(generationId.toHexString(), abortController);
+
+    let usage: { prompt_tokens: number, completion_tokens: number } | undefined;
+    let stopped = false;
+    let streamError: unknown;
+    const renderer = createStreamRenderer(ctx.telegram, ctx.chat!.id, {
+      extra: getReplyExtra(ctx),
+      streamingMarkup: Markup.inlineKeyboard([
+        Markup.button.callback(t('generation.stopButton'), `stop_gen:${generationId}`)
+      ]).reply_markup
+    });
+
+    try {
+      const stream = await openai.chat.completions.create({
+        model: model.id, // Модель, выбранная пользователем, или модель тарифа по умолчанию
+        messages: messages,
+        stream: true,
+        temperature: persona.temperature,
+        max_tokens: getMaxTokens(model, user.subscription), // Разные лимиты токенов
+        stream_options: { include_usage: true }, // Последний чанк придет с фактическим расходом токенов
+      }, { signal: abortController.signal });
+
+      let lastStopCheck = Date.now();
+      for await (const part of stream) {
+        const content = part.choices[0]?.delta?.content || '';
+        if (content) {
+          await renderer.append(content);
+        }
+
+        if (part.usage) {
+          usage = part.usage;
+        }
+
+        // Кнопку «Стоп» могли нажать в другом экземпляре функции — проверяем флаг в базе
+        if (Date.now() - lastStopCheck >= STOP_CHECK_INTERVAL_MS) {
+          lastStopCheck = Date.now();
+          if (await isGenerationStopped(generationId)) {
+            abortController.abort();
+          }
+        }
+        if (abortController.signal.aborted) {
+          stopped = true;
+          break;
+        }
+      }
+    } catch (error) {
+      // Если часть ответа уже в чате, сначала завершаем сообщение, а потом сообщаем об ошибке
+      if (abortController.signal.aborted) {
+        stopped = true;
+      } else if (renderer.text.trim()) {
+        streamError = error;
+      } else {
+        throw error;
+      }
+    } finally {
+      activeGenerations.delete(generationId.toHexString());
+    }
+
+    const fullResponse = renderer.text;
+    if (!fullResponse.trim()) {
+      await generations().updateOne({ _id: generationId }, { $set: { status: 'failed' } });
+      await ctx.reply(t(stopped ? 'generation.stopped' : 'generation.empty'));
+      return;
+    }
+
+    // Модель ответила хотя бы частично — расход учитываем, лимит не возвращаем
+    await recordUsage(userId, {
+      kind: 'chat',
+      modelId: model.id,
+      generationId,
+      requests: model.requestCost,
+      inputTokens: usage?.prompt_tokens ?? estimateMessagesTokens(messages),
+      outputTokens: usage?.completion_tokens ?? estimateTokens(fullResponse),
+      estimated: !usage,
+      billing: charge?.billing,
+    });
+    if (charge) {
+      charge.settled = true;
+    }
+
+    if (streamError) {
+      console.error('Generation stream interrupted:', streamError);
+      // Без клавиатуры: кнопка «Стоп» больше ничего не остановит
+      await renderer.finish();
+      await generations().updateOne({ _id: generationId }, { $set: { status: 'failed' } });
+      await ctx.reply(t('generation.error'));
+      return;
+    }
+
+    await renderer.finish(Markup.inlineKeyboard([
+      Markup.button.callback(t('generation.regenButton'), `regen:${generationId}`),
+      Markup.button.callback(t('generation.continueButton'), `continue:${generationId}`)
+    ]).reply_markup);
+
+    // При перегенерации заменяем прошлый ответ, а не добавляем новый
+    const replaced = replaceGenerationId && (await chatMessages().updateOne(
+      { userId: thread.userId, generationId: replaceGenerationId },
+      { $set: { content: fullResponse, generationId } }
+    )).modifiedCount > 0;
+    if (!replaced) {
+      await saveChatMessage(thread.userId, thread._id!, 'assistant', fullResponse, generationId);
+    }
+    await generations().updateOne({ _id: generationId }, { $set: { status: stopped ? 'stopped' : 'completed' } });
+
+    const question = typeof prompt === 'string'
+      ? prompt
+      : prompt.map(part => part.type === 'text' ? part.text : '').join(' ');
+    await generateThreadTitle(userId, thread, question, fullResponse);
+    return fullResponse;
+  } catch (error) {
+    console.error('Error calling OpenRouter:', error);
+    if (generationId) {
+      await generations().updateOne({ _id: generationId }, { $set: { status: 'failed' } });
+    }
+    await ctx.reply(t('generation.error'));
+  }
+}
+
+export {
+  Generation,
+  generations,
+  CONTINUE_PROMPT,
+  activeGenerations,
+  getUserPersona,
+  fromStoredPrompt,
+  getLatestGeneration,
+  sendToOpenRouterStream,
+};
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Composer, Context, Telegram } from 'telegraf';
+import { Update } from 'telegraf/typings/core/types/typegram';
+
+import { memoryDb } from '../testing';
+
+// Голос распознает локальная заглушка: расшифровку задает SPEECH_STUB_TRANSCRIPT
+vi.hoisted(() => {
+  process.env.OPENROUTER_API_KEY = 'test';
+  process.env.SPEECH_PROVIDER = 'local';
+});
+
+vi.mock('../db', () => import('../testing').then(({ memoryDb }) => ({ db: memoryDb })));
+vi.mock('axios', () => ({ default: { get: vi.fn(async () => ({ data: new ArrayBuffer(8) })) } }));
+// Ответ модели не нужен: проверяем, что до нее доходит расшифровка
+vi.mock('./generation', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./generation')>(),
+  sendToOpenRouterStream: vi.fn(async () => 'Answer'),
+}));
+
+import { createI18n } from '../i18n';
+import { users } from '../users';
+import { sendToOpenRouterStream } from './generation';
+import { chatMessages } from './threads';
+import { chatComposer } from './handlers';
+
+const USER_ID = 1;
+const TRANSCRIPT = 'What is the weather like on Mars?';
+
+function createVoiceContext() {
+  const telegram = {
+    getFile: vi.fn(async () => ({ file_id: 'voice-1', file_unique_id: 'voice-1', file_path: 'voice/file_1.oga' })),
+    sendMessage: vi.fn(async () => ({ message_id: 11 })),
+  };
+  const update = {
+    update_id: 1,
+    message: {
+      message_id: 10,
+      date: 0,
+      chat: { id: USER_ID, type: 'private', first_name: 'Alex' },
+      from: { id: USER_ID, is_bot: false, first_name: 'Alex', language_code: 'en' },
+      voice: { file_id: 'voice-1', file_unique_id: 'voice-1', duration: 3 },
+    },
+  } as Update;
+  const ctx = new Context(update, telegram as unknown as Telegram, { id: 2, username: 'test_bot' } as Context['botInfo']);
+  return { ctx, telegram };
+}
+
+const handle = (ctx: Context) => Composer.unwrap(chatComposer.middleware())(ctx, async () => undefined);
+
+describe('voice messages', () => {
+  beforeEach(() => {
+    memoryDb.reset();
+    vi.mocked(sendToOpenRouterStream).mockClear();
+  });
+
+  afterEach(() => {
+    delete process.env.SPEECH_STUB_TRANSCRIPT;
+  });
+
+  it('answers the transcript as a text message', async () => {
+    process.env.SPEECH_STUB_TRANSCRIPT = TRANSCRIPT;
+    const { ctx, telegram } = createVoiceContext();
+
+    await handle(ctx);
+
+    expect(telegram.getFile).toHaveBeenCalledWith('voice-1');
+    expect(telegram.sendMessage).toHaveBeenCalledWith(
+      USER_ID, `🗣 ${TRANSCRIPT}`, expect.objectContaining({ reply_parameters: { message_id: 10 } })
+    );
+    const [question] = await chatMessages().find({ userId: USER_ID }).toArray();
+    expect(question).toMatchObject({ role: 'user', content: TRANSCRIPT });
+    expect(sendToOpenRouterStream).toHaveBeenCalledWith(
+      USER_ID, expect.objectContaining({ _id: question.threadId }), TRANSCRIPT, ctx, expect.anything()
+    );
+  });
+
+  it('says so when nothing was recognized and returns the request', async () => {
+    const { ctx, telegram } = createVoiceContext();
+
+    await handle(ctx);
+
+    expect(telegram.sendMessage).toHaveBeenCalledWith(
+      USER_ID, createI18n('en').t('voice.notRecognized'), expect.anything()
+    );
+    expect(sendToOpenRouterStream).not.toHaveBeenCalled();
+    expect(await chatMessages().countDocuments({ userId: USER_ID })).toBe(0);
+    expect((await users().findOne({ userId: USER_ID }))?.dailyUsage?.requests).toBe(0);
+  });
+});
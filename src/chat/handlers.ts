@@ -0,0 +1,347 @@
+import { Composer, Context, Middleware } from 'telegraf';
+import { ObjectId } from 'mongodb';
+import { message } from 'telegraf/filters';
+import axios from 'axios';
+
+import { createSpeechToText, createTextToSpeech } from '../speech';
+import { ModelConfig, getModelByKey, resolveModel, resolveVisionModel } from '../models';
+import { isGroupChat, isChatAdmin } from '../groups';
+import { BOT_TOKEN } from '../config';
+import { getUserProfile } from '../users';
+import { getI18n, getGroupQuestion, attributeToSender } from '../context';
+import {
+  privateOnly,
+  resolveBilling,
+  setBilledUser,
+  getBilledUser,
+  chargeQuota,
+  getQuota,
+} from '../middleware';
+import {
+  ChatThread,
+  saveChatMessage,
+  createThread,
+  getActiveThread,
+  getConversationThread,
+  listThreads,
+  switchThread,
+  deleteThread,
+  getThreadTitle,
+  buildThreadsKeyboard,
+  clearThreadHistory,
+  resetUserContext,
+  threads,
+} from './threads';
+import {
+  Generation,
+  CONTINUE_PROMPT,
+  activeGenerations,
+  fromStoredPrompt,
+  getLatestGeneration,
+  sendToOpenRouterStream,
+  generations,
+} from './generation';
+import { rewardReferralActivation } from '../billing/referrals';
+import { MAX_FILE_SIZE } from '../files/documents';
+
+const chatComposer = new Composer<Context>();
+
+// Голосовые сообщения
+const MAX_VOICE_DURATION = 5 * 60; // 5 минут
+const speechToText = createSpeechToText();
+const textToSpeech = createTextToSpeech();
+
+chatComposer.command('reset', async (ctx) => {
+  const userId = ctx.from.id;
+  const { t } = getI18n(ctx);
+
+  // В группе сбрасывается общий разговор чата или темы — это решают администраторы
+  if (isGroupChat(ctx.chat)) {
+    if (!(await isChatAdmin(ctx.telegram, ctx.chat.id, userId))) {
+      await ctx.reply(t('group.resetAdminsOnly'));
+      return;
+    }
+    await clearThreadHistory(await getConversationThread(ctx, userId));
+    await ctx.reply(t('group.reset'));
+    return;
+  }
+
+  await resetUserContext(userId);
+  ctx.reply(t('chats.reset'));
+});
+
+chatComposer.command('new', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  await getUserProfile(userId, ctx.from.username);
+  const title = ctx.message.text.split(' ').slice(1).join(' ').trim().slice(0, 64);
+  const thread = await createThread(userId, title || undefined);
+  const { t } = getI18n(ctx);
+  await ctx.reply(t('chats.created', { title: getThreadTitle(t, thread) }));
+});
+
+chatComposer.command('chats', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  const activeThread = await getActiveThread(userId);
+  const threads = await listThreads(userId);
+
+  const { t } = getI18n(ctx);
+
+  await ctx.reply(t('chats.list'), buildThreadsKeyboard(t, threads, activeThread._id));
+});
+
+chatComposer.command('switch', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  const activeThread = await getActiveThread(userId);
+  const threads = await listThreads(userId);
+  const argument = ctx.message.text.split(' ').slice(1).join(' ').trim();
+  const { t } = getI18n(ctx);
+
+  if (!argument) {
+    await ctx.reply(t('chats.choose'), buildThreadsKeyboard(t, threads, activeThread._id));
+    return;
+  }
+
+  // Сначала название: разговор может называться и «2024 планы», и просто «2024»
+  const byTitle = threads.find(item => getThreadTitle(t, item).toLowerCase() === argument.toLowerCase());
+  const thread = byTitle ?? (/^\d+$/.test(argument) ? threads[parseInt(argument, 10) - 1] : undefined);
+
+  if (!thread) {
+    await ctx.reply(t('chats.notFound'));
+    return;
+  }
+
+  await switchThread(userId, thread._id!);
+  await ctx.reply(t('chats.switched', { title: getThreadTitle(t, thread) }));
+});
+
+// Текстовый вопрос из личного чата, из группы по упоминанию или ответу и из команды /ask.
+// Вопрос кладут в ctx.state.question предыдущие обработчики цепочки, лимит уже списан.
+const answerQuestion: Middleware<Context> = async (ctx) => {
+  const userId = ctx.from!.id;
+  const { model, charge } = getQuota(ctx);
+
+  try {
+    await rewardReferralActivation(userId);
+
+    const thread = await getConversationThread(ctx, userId);
+    const prompt = attributeToSender(ctx, ctx.state.question);
+    await saveChatMessage(thread.userId, thread._id!, 'user', prompt);
+    // Документы из личной базы знаний в группе не используем
+    await sendToOpenRouterStream(getBilledUser(ctx).userId, thread, prompt, ctx, {
+      useKnowledgeBase: !isGroupChat(ctx.chat),
+      model,
+      charge
+    });
+  } catch (error) {
+    console.error('Error processing message:', error);
+    await ctx.reply(getI18n(ctx).t('messages.error'));
+  }
+};
+
+chatComposer.command('ask', async (ctx, next) => {
+  const question = ctx.payload.trim();
+  if (!question) {
+    await ctx.reply(getI18n(ctx).t('group.askUsage'));
+    return;
+  }
+  ctx.state.question = question;
+  return next();
+}, resolveBilling, chargeQuota(), answerQuestion);
+
+chatComposer.on(message('text'), async (ctx, next) => {
+  let userMessage = ctx.message.text;
+  if (isGroupChat(ctx.chat)) {
+    const question = getGroupQuestion(ctx);
+    if (question === null) return;
+    if (!question) {
+      await ctx.reply(getI18n(ctx).t('group.askUsage'));
+      return;
+    }
+    userMessage = question;
+  }
+  ctx.state.question = userMessage;
+  return next();
+}, resolveBilling, chargeQuota(), answerQuestion);
+
+// Голосовые и аудио сообщения расшифровываем и обрабатываем как обычный текст
+chatComposer.on([message('voice'), message('audio')], async (ctx, next) => {
+  const audio = 'voice' in ctx.message ? ctx.message.voice : ctx.message.audio;
+  const { t } = getI18n(ctx);
+
+  if (audio.file_size && audio.file_size > MAX_FILE_SIZE) {
+    await ctx.reply(t('voice.tooLarge'));
+    return;
+  }
+  if (audio.duration > MAX_VOICE_DURATION) {
+    await ctx.reply(t('voice.tooLong', { count: MAX_VOICE_DURATION / 60 }));
+    return;
+  }
+  return next();
+}, resolveBilling, chargeQuota(), async (ctx) => {
+  const userId = ctx.from.id;
+  const audio = 'voice' in ctx.message ? ctx.message.voice : ctx.message.audio;
+  const messageId = ctx.message.message_id;
+  const user = getBilledUser(ctx);
+  const { model, charge } = getQuota(ctx);
+  const { t } = getI18n(ctx);
+
+  try {
+    const file = await ctx.telegram.getFile(audio.file_id);
+    const fileUrl = `https://api.telegram.org/file/bot${BOT_TOKEN}/${file.file_path}`;
+    const response = await axios.get(fileUrl, { responseType: 'arraybuffer' });
+    const fileName = file.file_path?.split('/').pop() || 'voice.ogg';
+
+    const transcript = await speechToText.transcribe(Buffer.from(response.data), fileName);
+    if (!transcript) {
+      await ctx.reply(t('voice.notRecognized'));
+      return;
+    }
+
+    await ctx.reply(`🗣 ${transcript}`, { reply_parameters: { message_id: messageId } });
+    await rewardReferralActivation(userId);
+
+    const thread = await getConversationThread(ctx, userId);
+    const prompt = attributeToSender(ctx, transcript);
+    await saveChatMessage(thread.userId, thread._id!, 'user', prompt);
+    const answer = await sendToOpenRouterStream(user.userId, thread, prompt, ctx, {
+      useKnowledgeBase: !isGroupChat(ctx.chat),
+      model,
+      charge
+    });
+
+    if (answer && user.subscription === 'premium' && user.voiceReplies) {
+      await sendVoiceReply(ctx, answer);
+    }
+  } catch (error) {
+    console.error('Error processing voice message:', error);
+    await ctx.reply(t('voice.error'));
+  }
+});
+
+async function sendVoiceReply(ctx: Context, text: string) {
+  try {
+    // Убираем разметку Markdown, чтобы она не зачитывалась вслух
+    const plainText = text.replace(/```[\s\S]*?```/g, ' ').replace(/[*_`#>~]/g, '');
+    const voice = await textToSpeech.synthesize(plainText);
+    if (voice.length > 0) {
+      await ctx.replyWithVoice({ source: voice });
+    }
+  } catch (error) {
+    console.error('Error synthesizing voice reply:', error);
+  }
+}
+
+chatComposer.action(/^stop_gen:([0-9a-f]{24})$/, async (ctx) => {
+  const userId = ctx.from!.id;
+  const generationId = new ObjectId(ctx.match[1]);
+  const result = await generations().updateOne(
+    { _id: generationId, status: 'streaming', $or: [{ userId }, { requesterId: userId }] },
+    { $set: { status: 'stopped' } }
+  );
+  activeGenerations.get(generationId.toHexString())?.abort();
+  await ctx.answerCbQuery(getI18n(ctx).t(result.modifiedCount > 0 ? 'generation.stopDone' : 'generation.alreadyFinished'));
+});
+
+// Общие проверки для кнопок «Заново» и «Продолжить». Ответ оплачивает тот, за чей счет был исходный,
+// модель для списания лимита кладем в ctx.state.followUp.
+async function loadFollowUp(ctx: Context, generationId: ObjectId, next: () => Promise<void>) {
+  const userId = ctx.from!.id;
+  const { t } = getI18n(ctx);
+  // В группе повторить ответ может тот, кто спросил; лимит по-прежнему расходуется у того, за чей счет был ответ
+  const generation = await generations().findOne({
+    _id: generationId,
+    $or: [{ userId }, { requesterId: userId }],
+  });
+  const thread = generation && await threads().findOne({ _id: generation.threadId });
+  if (!generation || !thread) {
+    await ctx.answerCbQuery(t('generation.threadNotFound'));
+    return;
+  }
+
+  const latest = await getLatestGeneration(thread._id!);
+  if (!latest?._id!.equals(generationId)) {
+    await ctx.answerCbQuery(t('generation.latestOnly'), { show_alert: true });
+    return;
+  }
+
+  // Повторяем на той же модели, если она еще доступна на тарифе пользователя
+  const user = await getUserProfile(generation.userId);
+  const storedModel = getModelByKey(generation.modelKey);
+  const model = storedModel?.tiers.includes(user.subscription)
+    ? storedModel
+    : typeof generation.prompt === 'string'
+      ? resolveModel(user.subscription, user.selectedModel)
+      : resolveVisionModel(user.subscription, user.selectedModel);
+  if (!model) {
+    await ctx.answerCbQuery(t('generation.noModel'), { show_alert: true });
+    return;
+  }
+
+  setBilledUser(ctx, user);
+  ctx.state.followUp = { generation, thread, model };
+  return next();
+}
+
+function getFollowUp(ctx: Context): { generation: Generation, thread: ChatThread, model: ModelConfig } {
+  return ctx.state.followUp;
+}
+
+// Лимит уже списан: убираем кнопки со старого ответа
+async function clearFollowUpButtons(ctx: Context) {
+  await ctx.answerCbQuery();
+  await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+}
+
+const chargeFollowUp = chargeQuota((user, ctx) => getFollowUp(ctx).model);
+
+chatComposer.action(/^regen:([0-9a-f]{24})$/, (ctx, next) => loadFollowUp(ctx, new ObjectId(ctx.match[1]), next),
+  chargeFollowUp, async (ctx) => {
+    const { generation, thread, model } = getFollowUp(ctx);
+    const { charge } = getQuota(ctx);
+    await clearFollowUpButtons(ctx);
+    await sendToOpenRouterStream(generation.userId, thread, fromStoredPrompt(generation.prompt), ctx, {
+      useKnowledgeBase: generation.useKnowledgeBase,
+      model,
+      replaceGenerationId: generation._id,
+      charge
+    });
+  });
+
+chatComposer.action(/^continue:([0-9a-f]{24})$/, (ctx, next) => loadFollowUp(ctx, new ObjectId(ctx.match[1]), next),
+  chargeFollowUp, async (ctx) => {
+    const { generation, thread, model } = getFollowUp(ctx);
+    const { charge } = getQuota(ctx);
+    await clearFollowUpButtons(ctx);
+    await sendToOpenRouterStream(generation.userId, thread, CONTINUE_PROMPT, ctx, {
+      useKnowledgeBase: false,
+      model,
+      charge
+    });
+  });
+
+chatComposer.action(/^switch_chat:([0-9a-f]{24})$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const userId = ctx.from!.id;
+  const { t } = getI18n(ctx);
+  const thread = await switchThread(userId, new ObjectId(ctx.match[1]));
+  if (!thread) {
+    await ctx.editMessageText(t('chats.switchNotFound'));
+    return;
+  }
+  await ctx.editMessageText(t('chats.switched', { title: getThreadTitle(t, thread) }));
+});
+
+chatComposer.action(/^delete_chat:([0-9a-f]{24})$/, async (ctx) => {
+  const userId = ctx.from!.id;
+  const { t } = getI18n(ctx);
+  const deleted = await deleteThread(userId, new ObjectId(ctx.match[1]));
+  await ctx.answerCbQuery(t(deleted ? 'chats.deleted' : 'chats.alreadyDeleted'));
+
+  const activeThread = await getActiveThread(userId);
+  const threads = await listThreads(userId);
+  await ctx.editMessageReplyMarkup(buildThreadsKeyboard(t, threads, activeThread._id).reply_markup);
+});
+
+export {
+  chatComposer,
+};
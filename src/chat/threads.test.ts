@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+
+import { memoryDb } from '../testing';
+
+vi.hoisted(() => {
+  process.env.OPENROUTER_API_KEY = 'test';
+});
+
+vi.mock('../db', () => import('../testing').then(({ memoryDb }) => ({ db: memoryDb })));
+
+import { openai, estimateTokens, MESSAGE_TOKEN_OVERHEAD } from '../llm';
+import { getChatHistory, saveChatMessage } from './threads';
+
+const USER_ID = 1;
+
+describe('getChatHistory', () => {
+  const threadId = new ObjectId();
+
+  beforeEach(() => {
+    memoryDb.reset();
+    // Суммаризация не должна понадобиться; сети в тестах нет
+    vi.spyOn(openai.chat.completions, 'create').mockRejectedValue(new Error('no network in tests'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('leaves out the question being answered', async () => {
+    await saveChatMessage(USER_ID, threadId, 'user', 'First question');
+    await saveChatMessage(USER_ID, threadId, 'assistant', 'First answer');
+    await saveChatMessage(USER_ID, threadId, 'user', 'Second question');
+
+    const history = await getChatHistory(USER_ID, threadId, 10_000, { omitPendingQuestion: true });
+
+    expect(history).toEqual([
+      { role: 'user', content: 'First question' },
+      { role: 'assistant', content: 'First answer' },
+    ]);
+  });
+
+  it('keeps the last user message without omitPendingQuestion', async () => {
+    await saveChatMessage(USER_ID, threadId, 'user', 'Question');
+
+    expect(await getChatHistory(USER_ID, threadId, 10_000)).toEqual([{ role: 'user', content: 'Question' }]);
+  });
+
+  it('leaves out the question and the old answer on regenerate', async () => {
+    const generationId = new ObjectId();
+    await saveChatMessage(USER_ID, threadId, 'user', 'First question');
+    await saveChatMessage(USER_ID, threadId, 'assistant', 'First answer');
+    await saveChatMessage(USER_ID, threadId, 'user', 'Second question');
+    await saveChatMessage(USER_ID, threadId, 'assistant', 'Second answer', generationId);
+
+    const history = await getChatHistory(USER_ID, threadId, 10_000, {
+      excludeGenerationId: generationId,
+      omitPendingQuestion: true,
+    });
+
+    expect(history.map(message => message.content)).toEqual(['First question', 'First answer']);
+  });
+
+  it('keeps the last answer when continuing it', async () => {
+    await saveChatMessage(USER_ID, threadId, 'user', 'Question');
+    await saveChatMessage(USER_ID, threadId, 'assistant', 'Cut-off answer');
+
+    const history = await getChatHistory(USER_ID, threadId, 10_000, { omitPendingQuestion: true });
+
+    expect(history.map(message => message.content)).toEqual(['Question', 'Cut-off answer']);
+  });
+
+  it('does not spend the token budget on the pending question', async () => {
+    const earlier = ['Earlier question', 'Earlier answer'];
+    const question = 'word '.repeat(500);
+    await saveChatMessage(USER_ID, threadId, 'user', earlier[0]);
+    await saveChatMessage(USER_ID, threadId, 'assistant', earlier[1]);
+    await saveChatMessage(USER_ID, threadId, 'user', question);
+    // Бюджет вмещает прежние сообщения, но не вопрос
+    const budget = earlier.reduce((total, text) => total + estimateTokens(text) + MESSAGE_TOKEN_OVERHEAD, 0);
+
+    const history = await getChatHistory(USER_ID, threadId, budget, { omitPendingQuestion: true });
+
+    expect(history.map(message => message.content)).toEqual(earlier);
+    expect(openai.chat.completions.create).not.toHaveBeenCalled();
+  });
+});
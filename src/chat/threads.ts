@@ -0,0 +1,367 @@
+import { Context, Markup } from 'telegraf';
+import { ObjectId } from 'mongodb';
+
+import { db } from '../db';
+import { Translate } from '../i18n';
+import { isGroupChat } from '../groups';
+import { getUserProfile, users } from '../users';
+import {
+  openai,
+  MESSAGE_TOKEN_OVERHEAD,
+  SUMMARY_MODEL,
+  estimateTokens,
+} from '../llm';
+import { recordUsage } from '../usage';
+
+// Общий разговор группы принадлежит самому чату: userId — это chat id группы
+interface ChatThread {
+  _id?: ObjectId;
+  userId: number;
+  topicId?: number; // Тема форума, если разговор группы ведется в теме
+  title: string;
+  autoTitle: boolean; // Название сгенерируется после первого обмена сообщениями
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ChatSummary {
+  _id?: ObjectId;
+  userId: number;
+  threadId: ObjectId;
+  summary: string;
+  summarizedUntil: Date; // Сообщения до этой даты включительно уже учтены в summary
+  updatedAt: Date;
+}
+
+type ChatRole = 'system' | 'user' | 'assistant';
+
+interface ChatMessage {
+  _id?: ObjectId;
+  userId: number;
+  threadId?: ObjectId; // Нет у сообщений, сохраненных до появления разговоров
+  role: ChatRole;
+  content: string;
+  timestamp: Date;
+  generationId?: ObjectId; // Ответ модели, который можно перегенерировать
+}
+
+const chatMessages = () => db.collection<ChatMessage>('chats');
+const chatSummaries = () => db.collection<ChatSummary>('chat_summaries');
+const threads = () => db.collection<ChatThread>('threads');
+
+const MIN_HISTORY_TOKEN_BUDGET = 1000;
+// При переполнении сворачиваем историю с запасом, чтобы не вызывать суммаризацию на каждый запрос
+const HISTORY_KEEP_RATIO = 0.6;
+
+const SUMMARY_MAX_TOKENS = 600;
+const MAX_LISTED_THREADS = 20;
+
+// Находим индекс первого сообщения, начиная с которого хвост истории помещается в бюджет
+function findHistoryCutoff(messages: Array<{ content: string }>, tokenBudget: number): number {
+  let usedTokens = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    usedTokens += estimateTokens(messages[i].content) + MESSAGE_TOKEN_OVERHEAD;
+    if (usedTokens > tokenBudget) {
+      return i + 1;
+    }
+  }
+  return 0;
+}
+
+async function summarizeConversation(
+  userId: number,
+  previousSummary: string,
+  messages: Array<{ role: ChatRole, content: string }>
+): Promise<string> {
+  const transcript = messages.map(msg => `${msg.role}: ${msg.content}`).join('\n\n');
+
+  const completion = await openai.chat.completions.create({
+    model: SUMMARY_MODEL,
+    messages: [
+      {
+        role: 'system',
+        content: 'You maintain a running summary of a conversation between a user and an assistant. ' +
+          'Merge the previous summary with the new messages. Keep facts about the user, their goals, ' +
+          'decisions, open questions and important details. Be concise. ' +
+          'Write in the language of the conversation.'
+      },
+      {
+        role: 'user',
+        content: `Previous summary:\n${previousSummary || '(empty)'}\n\nNew messages:\n${transcript}`
+      }
+    ],
+    temperature: 0.2,
+    max_tokens: SUMMARY_MAX_TOKENS,
+  });
+
+  const summary = completion.choices[0]?.message?.content || previousSummary;
+  await recordUsage(userId, {
+    kind: 'summary',
+    modelId: SUMMARY_MODEL,
+    inputTokens: completion.usage?.prompt_tokens ?? estimateTokens(transcript),
+    outputTokens: completion.usage?.completion_tokens ?? estimateTokens(summary),
+    estimated: !completion.usage,
+  });
+  return summary;
+}
+
+// Возвращаем историю, укладывающуюся в бюджет токенов. Старые сообщения сворачиваются в summary.
+// Вопрос, на который сейчас отвечаем, уже сохранен в разговоре, но в запрос его добавляет вызывающий код:
+// с omitPendingQuestion последнее сообщение пользователя в историю не попадает и бюджет не расходует.
+async function getChatHistory(
+  userId: number,
+  threadId: ObjectId,
+  tokenBudget: number,
+  options: { excludeGenerationId?: ObjectId, omitPendingQuestion?: boolean } = {}
+): Promise<Array<{ role: ChatRole, content: string }>> {
+  const { excludeGenerationId, omitPendingQuestion } = options;
+  const storedSummary = await chatSummaries().findOne({ userId, threadId });
+
+  const query = {
+    userId,
+    threadId,
+    ...(storedSummary && { timestamp: { $gt: storedSummary.summarizedUntil } }),
+    // Перегенерируемый ответ не должен попадать в контекст
+    ...(excludeGenerationId && { generationId: { $ne: excludeGenerationId } }),
+  };
+  const rows = await chatMessages().find(query).sort({ timestamp: 1 }).toArray();
+  if (omitPendingQuestion && rows[rows.length - 1]?.role === 'user') {
+    rows.pop();
+  }
+  const history = rows.map(msg => ({ role: msg.role, content: msg.content }));
+
+  let summary = storedSummary?.summary || '';
+  let keepFrom = findHistoryCutoff(history, tokenBudget - estimateTokens(summary));
+
+  if (keepFrom > 0) {
+    const foldUntil = Math.max(
+      keepFrom,
+      findHistoryCutoff(history, Math.floor(tokenBudget * HISTORY_KEEP_RATIO) - SUMMARY_MAX_TOKENS)
+    );
+
+    try {
+      summary = await summarizeConversation(userId, summary, history.slice(0, foldUntil));
+      await chatSummaries().updateOne(
+        { userId, threadId },
+        { 
+          $set: { 
+            summary, 
+            summarizedUntil: rows[foldUntil - 1].timestamp, 
+            updatedAt: new Date() 
+          } 
+        },
+        { upsert: true }
+      );
+      keepFrom = foldUntil;
+    } catch (error) {
+      // Не удалось обновить summary — просто отбрасываем сообщения, не влезающие в бюджет
+      console.error('Error summarizing chat history:', error);
+    }
+  }
+
+  const result = history.slice(keepFrom);
+  if (summary) {
+    result.unshift({ role: 'system', content: `Summary of the earlier conversation:\n${summary}` });
+  }
+  return result;
+}
+
+async function saveChatMessage(
+  userId: number,
+  threadId: ObjectId,
+  role: ChatRole,
+  content: string,
+  generationId?: ObjectId
+) {
+  const timestamp = new Date();
+  await chatMessages().insertOne({ 
+    userId, 
+    threadId,
+    role, 
+    content, 
+    timestamp,
+    ...(generationId && { generationId })
+  });
+  await threads().updateOne({ _id: threadId }, { $set: { updatedAt: timestamp } });
+}
+
+async function createThread(userId: number, title?: string): Promise<ChatThread> {
+  const now = new Date();
+  // Пустое название показывается как «Новый чат» на языке пользователя
+  const thread: ChatThread = {
+    userId,
+    title: title || '',
+    autoTitle: !title,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const result = await threads().insertOne(thread);
+  thread._id = result.insertedId;
+
+  await users().updateOne({ userId }, { $set: { activeThreadId: thread._id } });
+  return thread;
+}
+
+// Возвращаем активный разговор пользователя, создавая его при необходимости
+async function getActiveThread(userId: number): Promise<ChatThread> {
+  const user = await getUserProfile(userId);
+
+  if (user.activeThreadId) {
+    const thread = await threads().findOne({ _id: user.activeThreadId, userId });
+    if (thread) return thread;
+  }
+
+  const latest = await threads().find({ userId }).sort({ updatedAt: -1 }).limit(1).next();
+  if (latest) {
+    await users().updateOne({ userId }, { $set: { activeThreadId: latest._id } });
+    return latest;
+  }
+
+  // Первый разговор пользователя: переносим в него сообщения, сохраненные до появления разговоров
+  const thread = await createThread(userId);
+  await chatMessages().updateMany(
+    { userId, threadId: { $exists: false } },
+    { $set: { threadId: thread._id } }
+  );
+  await chatSummaries().updateMany(
+    { userId, threadId: { $exists: false } },
+    { $set: { threadId: thread._id } }
+  );
+  return thread;
+}
+
+// Общий разговор группы или темы форума; создается при первом обращении
+async function getGroupThread(chatId: number, topicId?: number): Promise<ChatThread> {
+  const now = new Date();
+  const thread = await threads().findOneAndUpdate(
+    { userId: chatId, topicId: topicId ?? { $exists: false } },
+    { $setOnInsert: { title: '', autoTitle: false, createdAt: now, updatedAt: now } },
+    { upsert: true, returnDocument: 'after' }
+  );
+  return thread!;
+}
+
+// Разговор, в который пишет сообщение: в личном чате — активный разговор пользователя,
+// в группе — общий разговор чата или темы форума
+async function getConversationThread(ctx: Context, userId: number): Promise<ChatThread> {
+  if (!isGroupChat(ctx.chat)) {
+    return getActiveThread(userId);
+  }
+  const message = ctx.message;
+  const topicId = message && 'is_topic_message' in message && message.is_topic_message
+    ? message.message_thread_id
+    : undefined;
+  return getGroupThread(ctx.chat!.id, topicId);
+}
+
+async function listThreads(userId: number): Promise<ChatThread[]> {
+  return threads().find({ userId }).sort({ updatedAt: -1 }).limit(MAX_LISTED_THREADS).toArray();
+}
+
+async function switchThread(userId: number, threadId: ObjectId): Promise<ChatThread | null> {
+  const thread = await threads().findOne({ _id: threadId, userId });
+  if (!thread) return null;
+
+  await users().updateOne({ userId }, { $set: { activeThreadId: thread._id } });
+  return thread;
+}
+
+async function deleteThread(userId: number, threadId: ObjectId): Promise<boolean> {
+  const result = await threads().deleteOne({ _id: threadId, userId });
+  await chatMessages().deleteMany({ userId, threadId });
+  await chatSummaries().deleteMany({ userId, threadId });
+  await users().updateOne(
+    { userId, activeThreadId: threadId },
+    { $unset: { activeThreadId: '' } }
+  );
+  return result.deletedCount > 0;
+}
+
+// После первого обмена сообщениями придумываем разговору короткое название
+async function generateThreadTitle(userId: number, thread: ChatThread, question: string, answer: string) {
+  if (!thread.autoTitle) return;
+
+  try {
+    const completion = await openai.chat.completions.create({
+      model: SUMMARY_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: 'Come up with a short title (2-5 words) for a conversation that starts with the messages below. ' +
+            'Reply with the title only, without quotes, in the language of the conversation.'
+        },
+        { role: 'user', content: `User: ${question.slice(0, 1000)}\n\nAssistant: ${answer.slice(0, 1000)}` }
+      ],
+      temperature: 0.3,
+      max_tokens: 20,
+    });
+
+    const title = completion.choices[0]?.message?.content?.trim().replace(/^["«]|["»]$/g, '');
+    await recordUsage(userId, {
+      kind: 'title',
+      modelId: SUMMARY_MODEL,
+      inputTokens: completion.usage?.prompt_tokens ?? estimateTokens(question.slice(0, 1000) + answer.slice(0, 1000)),
+      outputTokens: completion.usage?.completion_tokens ?? estimateTokens(title || ''),
+      estimated: !completion.usage,
+    });
+    await threads().updateOne(
+      { _id: thread._id, userId },
+      { $set: { title: title || '', autoTitle: false } }
+    );
+  } catch (error) {
+    console.error('Error generating thread title:', error);
+  }
+}
+
+function getThreadTitle(t: Translate, thread: ChatThread): string {
+  return thread.title || t('chats.untitled');
+}
+
+function formatThreadTitle(t: Translate, thread: ChatThread, activeThreadId?: ObjectId): string {
+  return activeThreadId?.equals(thread._id!) ? `✅ ${getThreadTitle(t, thread)}` : getThreadTitle(t, thread);
+}
+
+function buildThreadsKeyboard(t: Translate, threads: ChatThread[], activeThreadId?: ObjectId) {
+  return Markup.inlineKeyboard(
+    threads.map(thread => [
+      Markup.button.callback(formatThreadTitle(t, thread, activeThreadId), `switch_chat:${thread._id}`),
+      Markup.button.callback('🗑', `delete_chat:${thread._id}`)
+    ])
+  );
+}
+
+async function clearThreadHistory(thread: ChatThread) {
+  await chatMessages().deleteMany({ userId: thread.userId, threadId: thread._id });
+  await chatSummaries().deleteMany({ userId: thread.userId, threadId: thread._id });
+}
+
+// Очищаем историю текущего разговора, сам разговор остается в списке
+async function resetUserContext(userId: number) {
+  const thread = await getActiveThread(userId);
+  await clearThreadHistory(thread);
+  await threads().updateOne(
+    { _id: thread._id },
+    { $set: { title: '', autoTitle: true } }
+  );
+}
+
+export {
+  ChatThread,
+  ChatMessage,
+  chatMessages,
+  threads,
+  MIN_HISTORY_TOKEN_BUDGET,
+  getChatHistory,
+  saveChatMessage,
+  createThread,
+  getActiveThread,
+  getConversationThread,
+  listThreads,
+  switchThread,
+  deleteThread,
+  generateThreadTitle,
+  getThreadTitle,
+  buildThreadsKeyboard,
+  clearThreadHistory,
+  resetUserContext,
+};
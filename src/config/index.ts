@@ -0,0 +1,14 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+const BOT_TOKEN = process.env.BOT_TOKEN || '';
+const ENVIRONMENT = process.env.NODE_ENV || '';
+// Секрет, которым Vercel Cron и сам бот подписывают вызовы плановых задач
+const CRON_SECRET = process.env.CRON_SECRET || '';
+
+export {
+  BOT_TOKEN,
+  ENVIRONMENT,
+  CRON_SECRET,
+};
@@ -0,0 +1,71 @@
+import { Context } from 'telegraf';
+import { MessageEntity } from 'telegraf/typings/core/types/typegram';
+import { ExtraReplyMessage } from 'telegraf/typings/telegram-types';
+
+import { I18n, resolveLocale, createI18n } from '../i18n';
+import { isGroupChat, stripBotMention, isReplyToBot } from '../groups';
+
+// Язык и часовой пояс текущего обновления (их выставляет middleware выше)
+function getI18n(ctx: Context): I18n {
+  return ctx.state.i18n ?? createI18n(resolveLocale(ctx.from?.language_code));
+}
+
+function getMessageText(message: NonNullable<Context['message']>): { text: string, entities?: MessageEntity[] } {
+  if ('text' in message) return { text: message.text, entities: message.entities };
+  if ('caption' in message) return { text: message.caption ?? '', entities: message.caption_entities };
+  return { text: '' };
+}
+
+function isAddressedToBot(ctx: Context): boolean {
+  const message = ctx.message!;
+  const { text, entities } = getMessageText(message);
+  const command = entities?.[0]?.type === 'bot_command' && entities[0].offset === 0
+    ? text.slice(0, entities[0].length)
+    : undefined;
+  // Команды с именем другого бота (/start@other_bot) не наши
+  if (command) {
+    const [, target] = command.split('@');
+    return !target || target.toLowerCase() === ctx.botInfo.username.toLowerCase();
+  }
+  return isReplyToBot(message, ctx.botInfo.id) || stripBotMention(text, entities, ctx.botInfo) !== null;
+}
+
+// Вопрос из сообщения в группе: текст без упоминания бота или весь текст ответа на сообщение бота.
+// null — сообщение адресовано не боту.
+function getGroupQuestion(ctx: Context): string | null {
+  const message = ctx.message!;
+  const { text, entities } = getMessageText(message);
+  const question = stripBotMention(text, entities, ctx.botInfo);
+  if (question !== null) return question;
+  return isReplyToBot(message, ctx.botInfo.id) ? text.trim() : null;
+}
+
+// В общем разговоре группы модели нужно знать, кто из участников пишет
+function attributeToSender(ctx: Context, text: string): string {
+  return isGroupChat(ctx.chat) && ctx.from ? `${ctx.from.first_name}: ${text}` : text;
+}
+
+// В группах отвечаем в ту же тему форума и цитируем вопрос, чтобы было видно, кому ответ
+function getReplyExtra(ctx: Context): ExtraReplyMessage {
+  if (!isGroupChat(ctx.chat)) return {};
+  const message = ctx.msg;
+  return {
+    ...(message && 'is_topic_message' in message && message.is_topic_message && {
+      message_thread_id: message.message_thread_id,
+    }),
+    ...(ctx.message && { reply_parameters: { message_id: ctx.message.message_id, allow_sending_without_reply: true } }),
+  };
+}
+
+function getCommandArgs(text: string): string[] {
+  return text.split(/\s+/).slice(1).filter(Boolean);
+}
+
+export {
+  getI18n,
+  isAddressedToBot,
+  getGroupQuestion,
+  attributeToSender,
+  getReplyExtra,
+  getCommandArgs,
+};
@@ -1,20 +1,93 @@
-
-import { Db, MongoClient } from 'mongodb';
+import { CreateIndexesOptions, IndexSpecification, MongoClient } from 'mongodb';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
-const mongoClient = new MongoClient(process.env.MONGODB_URI!);
-let db: Db;
+const MONGODB_URI = process.env.MONGODB_URI;
+if (!MONGODB_URI) {
+  throw new Error('MONGODB_URI is not set.');
+}
+
+const mongoClient = new MongoClient(MONGODB_URI);
+// Драйвер подключается при первом запросе, поэтому коллекции можно объявлять до connectToMongo
+const db = mongoClient.db('telegram-bot');
+
+interface IndexDefinition {
+  collection: string;
+  key: IndexSpecification;
+  options?: CreateIndexesOptions;
+}
+
+// Индексы создаются при старте; createIndex для уже существующего индекса ничего не делает.
+// Уникальные индексы по полям, где в старых данных могут быть дубли, добавляют миграции (src/migrations).
+const INDEXES: IndexDefinition[] = [
+  // Повторная доставка successful_payment не должна создавать второй платеж
+  {
+    collection: 'payments',
+    key: { payment_id: 1 },
+    options: { unique: true, partialFilterExpression: { payment_id: { $type: 'string' } } },
+  },
+  { collection: 'payments', key: { user_id: 1, created_at: -1 } },
+  { collection: 'invoices', key: { payload: 1 }, options: { unique: true } },
+  { collection: 'invoices', key: { invoice_id: 1 } },
+  { collection: 'payment_audit_log', key: { entityId: 1, createdAt: 1 } },
+  {
+    collection: 'users',
+    key: { referralCode: 1 },
+    options: { unique: true, partialFilterExpression: { referralCode: { $type: 'string' } } },
+  },
+  { collection: 'users', key: { lastActiveAt: 1 } },
+  { collection: 'users', key: { subscription: 1, subscriptionExpiryDate: 1 } },
+  // Пригласить пользователя можно только один раз
+  { collection: 'referrals', key: { inviteeId: 1 }, options: { unique: true } },
+  { collection: 'referrals', key: { referrerId: 1 } },
+  { collection: 'promo_codes', key: { code: 1 }, options: { unique: true } },
+  // Каждый промокод пользователь активирует только один раз
+  { collection: 'promo_redemptions', key: { code: 1, userId: 1 }, options: { unique: true } },
+  { collection: 'usage_records', key: { userId: 1, createdAt: 1 } },
+  // История разговора читается по порядку сообщений
+  { collection: 'chats', key: { userId: 1, threadId: 1, timestamp: 1 } },
+  { collection: 'chat_summaries', key: { userId: 1, threadId: 1 } },
+  { collection: 'threads', key: { userId: 1, updatedAt: -1 } },
+  { collection: 'generations', key: { threadId: 1, createdAt: -1 } },
+  { collection: 'generations', key: { userId: 1 } },
+  { collection: 'generations', key: { createdAt: 1 } },
+  { collection: 'documents', key: { userId: 1, createdAt: 1 } },
+  { collection: 'document_chunks', key: { userId: 1, documentId: 1 } },
+  { collection: 'images', key: { userId: 1 } },
+  { collection: 'images', key: { createdAt: 1 } },
+  { collection: 'broadcasts', key: { status: 1 } },
+  { collection: 'inline_queries', key: { userId: 1, createdAt: -1 } },
+  { collection: 'inline_queries', key: { queryId: 1 } },
+  // Выбрать результат можно, пока Telegram показывает его; старые запросы удаляет сама база
+  { collection: 'inline_queries', key: { createdAt: 1 }, options: { expireAfterSeconds: 24 * 60 * 60 } },
+];
 
-async function connectToMongo() {
-  try {
+let connection: Promise<void> | undefined;
+
+// Подключаемся и создаем индексы один раз на процесс. Без базы бот работать не может,
+// поэтому ошибку пробрасываем; следующий вызов попробует подключиться заново.
+function connectToMongo(): Promise<void> {
+  connection ??= (async () => {
     await mongoClient.connect();
-    db = mongoClient.db('telegram-bot');
     console.log('Connected to MongoDB');
-  } catch (error) {
-    console.error('Failed to connect to MongoDB:', error);
+    await ensureIndexes();
+  })().catch((error) => {
+    connection = undefined;
+    throw new Error('Failed to connect to MongoDB', { cause: error });
+  });
+  return connection;
+}
+
+async function ensureIndexes() {
+  for (const { collection, key, options } of INDEXES) {
+    await db.collection(collection).createIndex(key, options ?? {});
   }
 }
 
-export { db, connectToMongo };
+async function closeMongo() {
+  await mongoClient.close();
+  connection = undefined;
+}
+
+export { db, connectToMongo, closeMongo };
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { Embeddings } from '@langchain/core/embeddings';
+import OpenAI from 'openai';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+const EMBEDDINGS_PROVIDER = process.env.EMBEDDINGS_PROVIDER || 'openai';
+const EMBEDDINGS_MODEL = process.env.EMBEDDINGS_MODEL || 'text-embedding-3-small';
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+// Эмбеддинги через любой OpenAI-совместимый API
+class OpenAICompatibleEmbeddings extends Embeddings {
+  private client: OpenAI;
+  private model: string;
+
+  constructor(model: string) {
+    super({ maxRetries: 2 });
+    this.model = model;
+    this.client = new OpenAI({
+      apiKey: process.env.EMBEDDINGS_API_KEY || process.env.OPENROUTER_API_KEY,
+      baseURL: process.env.EMBEDDINGS_BASE_URL || undefined,
+    });
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    if (documents.length === 0) return [];
+    const response = await this.caller.call(() =>
+      this.client.embeddings.create({ model: this.model, input: documents })
+    );
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([document]);
+    return embedding;
+  }
+}
+
+// Локальная заглушка без сети: хэширует слова в вектор фиксированной длины.
+// Подходит для разработки и тестов, но не понимает синонимов.
+class LocalHashEmbeddings extends Embeddings {
+  private dimensions: number;
+
+  constructor(dimensions = LOCAL_EMBEDDING_DIMENSIONS) {
+    super({});
+    this.dimensions = dimensions;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map(document => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      const hash = createHash('md5').update(word).digest();
+      const index = hash.readUInt32BE(0) % this.dimensions;
+      vector[index] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+function createEmbeddings(): Embeddings {
+  if (EMBEDDINGS_PROVIDER === 'local') {
+    return new LocalHashEmbeddings();
+  }
+  return new OpenAICompatibleEmbeddings(EMBEDDINGS_MODEL);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export { createEmbeddings, cosineSimilarity, OpenAICompatibleEmbeddings, LocalHashEmbeddings };
@@ -0,0 +1,185 @@
+import { Context } from 'telegraf';
+import axios from 'axios';
+
+import { QuotaBilling } from '../quotas';
+import { getI18n } from '../context';
+import { openai, SUMMARY_MODEL, estimateTokens } from '../llm';
+import { recordUsage } from '../usage';
+
+// Добавляем константу для максимального размера файла (10 МБ в байтах)
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+
+// Лимиты для анализа документов
+const MAX_DOCUMENT_TOKENS = 12000; // Документ длиннее этого конспектируется по частям
+const DOCUMENT_CHUNK_TOKENS = 6000;
+const MAX_DOCUMENT_CHUNKS = 10;
+
+const SUPPORTED_FILE_TYPES = ['txt', 'json', 'csv', 'pdf', 'docx'] as const;
+type SupportedFileType = typeof SUPPORTED_FILE_TYPES[number];
+
+const MIME_FILE_TYPES: Record<string, SupportedFileType> = {
+  'text/plain': 'txt',
+  'application/json': 'json',
+  'text/json': 'json',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+// Определяем формат файла: сначала по MIME-типу, затем по расширению
+function detectFileType(fileName?: string, mimeType?: string): SupportedFileType | null {
+  const normalizedMime = mimeType?.split(';')[0].trim().toLowerCase();
+  if (normalizedMime && MIME_FILE_TYPES[normalizedMime]) {
+    return MIME_FILE_TYPES[normalizedMime];
+  }
+
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension && (SUPPORTED_FILE_TYPES as readonly string[]).includes(extension)) {
+    return extension as SupportedFileType;
+  }
+
+  // Прочие текстовые типы (markdown, исходный код и т.д.) читаем как обычный текст
+  if (normalizedMime?.startsWith('text/')) {
+    return 'txt';
+  }
+
+  return null;
+}
+
+// Добавляем функцию для загрузки и обработки файла
+async function processFileContent(fileUrl: string, fileType: SupportedFileType): Promise<string> {
+  try {
+    // Загружаем файл в память
+    const response = await axios.get(fileUrl, { responseType: 'arraybuffer' });
+    const buffer = Buffer.from(response.data);
+    
+    // Обрабатываем содержимое в зависимости от типа файла
+    switch (fileType) {
+      case 'txt':
+        return buffer.toString('utf-8');
+        
+      case 'json':
+        return JSON.stringify(JSON.parse(buffer.toString('utf-8')), null, 2);
+        
+      case 'csv':
+        return buffer.toString('utf-8');
+        
+      case 'pdf':
+        // Для PDF можно использовать pdf-parse
+        const pdfParse = require('pdf-parse');
+        const data = await pdfParse(buffer);
+        return data.text;
+        
+      case 'docx':
+        // Для DOCX можно использовать mammoth
+        const mammoth = require('mammoth');
+        const result = await mammoth.extractRawText({ buffer });
+        return result.value;
+    }
+  } catch (error) {
+    console.error('Error processing file:', error);
+    throw new Error('Failed to process file content');
+  }
+}
+
+// Делим длинный текст на части по абзацам, строкам и, в крайнем случае, по символам
+function splitTextIntoChunks(text: string, maxTokens: number): string[] {
+  // Грубая оценка сверху: даже плотный текст редко укладывает меньше 2 символов в токен
+  const maxChars = maxTokens * 2;
+  const chunks: string[] = [];
+  let current = '';
+  let currentTokens = 0;
+
+  const pushCurrent = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+    currentTokens = 0;
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    // Слишком длинный абзац режем по строкам, слишком длинные строки — по символам
+    const lines = paragraph.length > maxChars ? paragraph.split('\n') : [paragraph];
+    const pieces = lines.flatMap(line =>
+      line.length > maxChars ? line.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, 'g')) || [] : [line]
+    );
+
+    for (const piece of pieces) {
+      const pieceTokens = estimateTokens(piece) + 1;
+      if (current && currentTokens + pieceTokens > maxTokens) {
+        pushCurrent();
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+      currentTokens += pieceTokens;
+    }
+  }
+  pushCurrent();
+
+  return chunks;
+}
+
+// Если документ не помещается в контекст, конспектируем его по частям
+async function prepareDocumentContent(
+  userId: number,
+  text: string,
+  caption: string,
+  ctx: Context,
+  billing: QuotaBilling
+): Promise<string> {
+  if (estimateTokens(text) <= MAX_DOCUMENT_TOKENS) {
+    return text;
+  }
+
+  const chunks = splitTextIntoChunks(text, DOCUMENT_CHUNK_TOKENS);
+  const processedChunks = chunks.slice(0, MAX_DOCUMENT_CHUNKS);
+
+  const { t } = getI18n(ctx);
+  await ctx.reply(
+    t('files.largeDocument', { processed: processedChunks.length, total: chunks.length }) +
+    (chunks.length > MAX_DOCUMENT_CHUNKS ? '\n' + t('files.truncated') : '')
+  );
+
+  const summaries: string[] = [];
+  for (const [index, chunk] of processedChunks.entries()) {
+    const completion = await openai.chat.completions.create({
+      model: SUMMARY_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: 'You condense parts of a document. Keep all facts, numbers, names and conclusions ' +
+            'that may matter for the user request. Answer in the language of the document.'
+        },
+        {
+          role: 'user',
+          content: `User request: ${caption || 'analyze the document'}\n\n` +
+            `Document part ${index + 1}/${processedChunks.length}:\n${chunk}`
+        }
+      ],
+      temperature: 0.2,
+      max_tokens: 800,
+    });
+
+    const summary = completion.choices[0]?.message?.content || '';
+    summaries.push(`[Часть ${index + 1}/${processedChunks.length}]\n${summary}`);
+
+    await recordUsage(userId, {
+      kind: 'document',
+      modelId: SUMMARY_MODEL,
+      inputTokens: completion.usage?.prompt_tokens ?? estimateTokens(chunk),
+      outputTokens: completion.usage?.completion_tokens ?? estimateTokens(summary),
+      estimated: !completion.usage,
+      billing,
+    });
+  }
+
+  return summaries.join('\n\n');
+}
+
+export {
+  MAX_FILE_SIZE,
+  detectFileType,
+  processFileContent,
+  prepareDocumentContent,
+};
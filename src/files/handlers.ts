@@ -0,0 +1,238 @@
+import { Composer, Context, Markup } from 'telegraf';
+import { ObjectId } from 'mongodb';
+import { ChatCompletionContentPart } from 'openai/resources';
+import { message } from 'telegraf/filters';
+
+import { resolveModel, resolveVisionModel } from '../models';
+import { isGroupChat } from '../groups';
+import { BOT_TOKEN } from '../config';
+import { getI18n, getGroupQuestion, attributeToSender } from '../context';
+import {
+  privateOnly,
+  resolveBilling,
+  getBilledUser,
+  premiumOnly,
+  chargeQuota,
+  getQuota,
+} from '../middleware';
+import { saveChatMessage, getConversationThread } from '../chat/threads';
+import { sendToOpenRouterStream } from '../chat/generation';
+import {
+  MAX_FILE_SIZE,
+  detectFileType,
+  processFileContent,
+  prepareDocumentContent,
+} from './documents';
+import { indexUserDocument, deleteUserDocument, listUserDocuments, findDocumentByReference } from './knowledge';
+
+const filesComposer = new Composer<Context>();
+
+filesComposer.command('docs', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  const documents = await listUserDocuments(userId);
+  const i18n = getI18n(ctx);
+
+  if (documents.length === 0) {
+    await ctx.reply(i18n.t('docs.empty'));
+    return;
+  }
+
+  const list = documents
+    .map((document, index) => `${index + 1}. ${document.fileName} (${i18n.formatDate(document.createdAt, {
+      day: 'numeric',
+      month: 'long',
+    })})`)
+    .join('\n');
+
+  await ctx.reply(i18n.t('docs.list', { list }));
+});
+
+filesComposer.command('forget_doc', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  const documents = await listUserDocuments(userId);
+  const { t } = getI18n(ctx);
+
+  if (documents.length === 0) {
+    await ctx.reply(t('docs.none'));
+    return;
+  }
+
+  const argument = ctx.message.text.split(' ').slice(1).join(' ').trim();
+  if (!argument) {
+    await ctx.reply(
+      t('docs.chooseToDelete'),
+      Markup.inlineKeyboard(
+        documents.map(document => [Markup.button.callback(document.fileName, `forget_doc:${document._id}`)])
+      )
+    );
+    return;
+  }
+
+  const document = findDocumentByReference(documents, argument);
+
+  if (!document) {
+    await ctx.reply(t('docs.notFound'));
+    return;
+  }
+
+  await deleteUserDocument(userId, document._id!);
+  await ctx.reply(t('docs.deletedNamed', { name: document.fileName }));
+});
+
+filesComposer.action(/^forget_doc:([0-9a-f]{24})$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const userId = ctx.from!.id;
+  const deleted = await deleteUserDocument(userId, new ObjectId(ctx.match[1]));
+  await ctx.editMessageText(getI18n(ctx).t(deleted ? 'docs.deleted' : 'docs.alreadyDeleted'));
+});
+
+// Добавляем обработчик для документов и фото
+filesComposer.on(message('document'), resolveBilling, premiumOnly('files.premiumOnly'), async (ctx, next) => {
+  const document = ctx.message.document;
+  const { t } = getI18n(ctx);
+
+  // Проверка размера файла
+  if (document.file_size && document.file_size > MAX_FILE_SIZE) {
+    await ctx.reply(t('common.fileTooLarge'));
+    return;
+  }
+
+  // Проверяем формат до списания запроса
+  if (!detectFileType(document.file_name, document.mime_type)) {
+    await ctx.reply(t('files.unsupported'));
+    return;
+  }
+  return next();
+}, chargeQuota(), async (ctx) => {
+  const userId = ctx.from.id;
+  const document = ctx.message.document;
+  const fileType = detectFileType(document.file_name, document.mime_type)!;
+  const billedUserId = getBilledUser(ctx).userId;
+  const { model, charge } = getQuota(ctx);
+  const { t } = getI18n(ctx);
+
+  // В группе подпись без упоминания бота
+  const caption = (isGroupChat(ctx.chat) ? getGroupQuestion(ctx) : ctx.message.caption) || '';
+
+  try {
+    // Получаем информацию о файле
+    const file = await ctx.telegram.getFile(document.file_id);
+    const fileUrl = `https://api.telegram.org/file/bot${BOT_TOKEN}/${file.file_path}`;
+
+    // Загружаем и обрабатываем содержимое файла
+    let fileContent: string;
+    try {
+      fileContent = await processFileContent(fileUrl, fileType);
+    } catch (error) {
+      console.error('Error extracting file content:', error);
+      await ctx.reply(t('files.unreadable'));
+      return;
+    }
+
+    if (!fileContent.trim()) {
+      await ctx.reply(t('files.noText'));
+      return;
+    }
+
+    // Сохраняем в базу информацию о файле и caption
+    const fileInfo = `[Файл: ${document.file_name} (${document.mime_type})]`;
+    const messageForHistory = caption ? `${caption}\n${fileInfo}` : fileInfo;
+    const thread = await getConversationThread(ctx, userId);
+    await saveChatMessage(thread.userId, thread._id!, 'user', attributeToSender(ctx, messageForHistory));
+
+    // Добавляем документ в базу знаний, чтобы по нему можно было задавать вопросы позже.
+    // Документы из групп в личную базу знаний не попадают.
+    if (!isGroupChat(ctx.chat)) {
+      try {
+        await indexUserDocument(userId, document.file_name || fileInfo, document.mime_type, fileContent);
+      } catch (error) {
+        console.error('Error indexing document:', error);
+      }
+    }
+
+    // Длинные документы сжимаем по частям, чтобы уложиться в контекст модели
+    const documentContent = await prepareDocumentContent(billedUserId, fileContent, caption, ctx, charge.billing);
+
+    // Формируем промпт с информацией о файле и его содержимым
+    const prompt = caption 
+      ? `User Prompt: ${caption}\n\nFile Content (${document.file_name}):\n${documentContent}`
+      : `Please analyze this file (${document.file_name}):\n${documentContent}`;
+
+    // Отправляем в модель (содержимое файла уже в промпте, поиск по базе знаний не нужен)
+    await sendToOpenRouterStream(billedUserId, thread, prompt, ctx, { useKnowledgeBase: false, model, charge });
+  } catch (error) {
+    console.error('Error processing file:', error);
+    await ctx.reply(t('files.error'));
+  }
+});
+
+filesComposer.on(message('photo'), resolveBilling, premiumOnly('photos.premiumOnly'), async (ctx, next) => {
+  const photos = ctx.message.photo;
+  const largestPhoto = photos[photos.length - 1];
+  const { t } = getI18n(ctx);
+
+  // Проверка размера фото
+  if (largestPhoto.file_size && largestPhoto.file_size > MAX_FILE_SIZE) {
+    await ctx.reply(t('photos.tooLarge'));
+    return;
+  }
+
+  // Выбранная модель может не поддерживать изображения — тогда отвечает другая модель тарифа
+  const user = getBilledUser(ctx);
+  if (!resolveVisionModel(user.subscription, user.selectedModel)) {
+    await ctx.reply(t('photos.noVisionModel'));
+    return;
+  }
+  return next();
+}, chargeQuota(user => resolveVisionModel(user.subscription, user.selectedModel)), async (ctx) => {
+  const userId = ctx.from.id;
+  const photos = ctx.message.photo;
+  const user = getBilledUser(ctx);
+  const selectedModel = resolveModel(user.subscription, user.selectedModel);
+  const { model, charge } = getQuota(ctx);
+  const { t } = getI18n(ctx);
+
+  // В группе подпись без упоминания бота
+  const caption = (isGroupChat(ctx.chat) ? getGroupQuestion(ctx) : ctx.message.caption) || '';
+
+  try {
+    if (model.key !== selectedModel.key) {
+      await ctx.reply(t('photos.modelSwitched', { selected: selectedModel.name, model: model.name }));
+    }
+
+    // Берем фото максимального размера
+    const photo = photos[photos.length - 1];
+    const file = await ctx.telegram.getFile(photo.file_id);
+    const fileUrl = `https://api.telegram.org/file/bot${BOT_TOKEN}/${file.file_path}`;
+
+    // Сохраняем в базу информацию о фото и caption
+    const messageForHistory = caption ? caption: "было отправлено фото";
+    const thread = await getConversationThread(ctx, userId);
+    await saveChatMessage(thread.userId, thread._id!, 'user', attributeToSender(ctx, messageForHistory));
+
+    // Формируем промпт
+    const prompt = [
+      { type: "text", text: attributeToSender(ctx, caption) },
+      {
+        type: "image_url",
+        image_url: {
+          "url": fileUrl,
+        },
+      },
+    ] as ChatCompletionContentPart[];
+
+    // Отправляем в модель
+    await sendToOpenRouterStream(user.userId, thread, prompt, ctx, {
+      useKnowledgeBase: !isGroupChat(ctx.chat),
+      model,
+      charge
+    });
+  } catch (error) {
+    console.error('Error processing photo:', error);
+    await ctx.reply(t('photos.error'));
+  }
+});
+
+export {
+  filesComposer,
+};
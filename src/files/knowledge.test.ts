@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+
+import { memoryDb } from '../testing';
+
+// Эмбеддинги считаем локально, без сети; провайдер выбирается при импорте модуля
+vi.hoisted(() => {
+  process.env.EMBEDDINGS_PROVIDER = 'local';
+});
+
+vi.mock('../db', () => import('../testing').then(({ memoryDb }) => ({ db: memoryDb })));
+
+import {
+  indexUserDocument,
+  listUserDocuments,
+  deleteUserDocument,
+  findDocumentByReference,
+  findRelevantChunks,
+} from './knowledge';
+
+const chunksOf = (userId: number) => memoryDb.collection('document_chunks').documents.filter(chunk => chunk.userId === userId);
+
+const CATS = 'Cats sleep most of the day. A cat purrs when it is happy and hunts mice at night.';
+const ROCKETS = 'Rockets burn liquid fuel in the engine. The rocket launch sends the payload to orbit.';
+
+describe('knowledge base', () => {
+  beforeEach(() => {
+    memoryDb.reset();
+  });
+
+  describe('indexUserDocument', () => {
+    it('splits a long document into overlapping chunks with embeddings', async () => {
+      const text = Array.from({ length: 60 }, (_, index) => `Paragraph ${index} describes part ${index} of the manual.`)
+        .join('\n\n');
+
+      const count = await indexUserDocument(1, 'manual.txt', 'text/plain', text);
+
+      expect(count).toBeGreaterThan(1);
+      const chunks = chunksOf(1);
+      expect(chunks).toHaveLength(count);
+      expect(chunks.map(chunk => chunk.chunkIndex)).toEqual([...Array(count).keys()]);
+      for (const chunk of chunks) {
+        expect((chunk.text as string).length).toBeLessThanOrEqual(1000);
+        expect(chunk.embedding).toHaveLength(256);
+        expect(chunk.fileName).toBe('manual.txt');
+      }
+      const [document] = await listUserDocuments(1);
+      expect(document).toMatchObject({ userId: 1, fileName: 'manual.txt', chunksCount: count });
+    });
+
+    it('stores nothing for an empty document', async () => {
+      expect(await indexUserDocument(1, 'empty.txt', 'text/plain', '')).toBe(0);
+      expect(await listUserDocuments(1)).toEqual([]);
+    });
+
+    it('replaces a document uploaded again under the same name', async () => {
+      await indexUserDocument(1, 'notes.txt', 'text/plain', CATS);
+      await indexUserDocument(1, 'notes.txt', 'text/plain', ROCKETS);
+
+      const documents = await listUserDocuments(1);
+      expect(documents).toHaveLength(1);
+      expect(chunksOf(1).map(chunk => chunk.text)).toEqual([ROCKETS]);
+    });
+
+    it('evicts the oldest documents over the per-user limit', async () => {
+      for (let index = 1; index <= 21; index++) {
+        await indexUserDocument(1, `file-${index}.txt`, 'text/plain', `Document number ${index}`);
+      }
+
+      const names = (await listUserDocuments(1)).map(document => document.fileName);
+      expect(names).toHaveLength(20);
+      expect(names).not.toContain('file-1.txt');
+      expect(chunksOf(1).some(chunk => chunk.fileName === 'file-1.txt')).toBe(false);
+    });
+  });
+
+  describe('findRelevantChunks', () => {
+    it('ranks the chunk closest to the query first', async () => {
+      await indexUserDocument(1, 'cats.txt', 'text/plain', CATS);
+      await indexUserDocument(1, 'rockets.txt', 'text/plain', ROCKETS);
+
+      const [best] = await findRelevantChunks(1, 'why does the rocket engine burn fuel');
+
+      expect(best.fileName).toBe('rockets.txt');
+      expect(best.text).toBe(ROCKETS);
+    });
+
+    it('returns chunks in descending score order above the threshold', async () => {
+      await indexUserDocument(1, 'cats.txt', 'text/plain', CATS);
+      await indexUserDocument(1, 'rockets.txt', 'text/plain', ROCKETS);
+      await indexUserDocument(1, 'mixed.txt', 'text/plain', 'A cat watched the rocket launch.');
+
+      const chunks = await findRelevantChunks(1, 'cat purrs happy mice');
+
+      expect(chunks[0].fileName).toBe('cats.txt');
+      expect(chunks.length).toBeLessThanOrEqual(4);
+      for (let index = 0; index < chunks.length; index++) {
+        expect(chunks[index].score).toBeGreaterThanOrEqual(0.3);
+        if (index > 0) expect(chunks[index].score).toBeLessThanOrEqual(chunks[index - 1].score);
+      }
+    });
+
+    it('returns at most the top four chunks', async () => {
+      for (let index = 1; index <= 6; index++) {
+        await indexUserDocument(1, `cats-${index}.txt`, 'text/plain', `${CATS} Note ${index}.`);
+      }
+
+      expect(await findRelevantChunks(1, 'cat purrs happy mice')).toHaveLength(4);
+    });
+
+    it('drops chunks below the similarity threshold', async () => {
+      await indexUserDocument(1, 'cats.txt', 'text/plain', CATS);
+
+      expect(await findRelevantChunks(1, 'quarterly tax declaration deadline')).toEqual([]);
+    });
+
+    it('searches only the documents of the given user', async () => {
+      await indexUserDocument(2, 'cats.txt', 'text/plain', CATS);
+
+      expect(await findRelevantChunks(1, 'cat purrs happy mice')).toEqual([]);
+    });
+  });
+
+  describe('/forget_doc', () => {
+    const documentsNamed = (...names: string[]) => names.map(fileName => ({
+      _id: new ObjectId(),
+      userId: 1,
+      fileName,
+      chunksCount: 1,
+      createdAt: new Date(),
+    }));
+
+    it('finds a document by its number in the list', () => {
+      const documents = documentsNamed('a.txt', 'b.txt');
+      expect(findDocumentByReference(documents, '2')).toBe(documents[1]);
+      expect(findDocumentByReference(documents, '3')).toBeUndefined();
+    });
+
+    it('prefers an exact file name over a number', () => {
+      const documents = documentsNamed('a.txt', '1');
+      expect(findDocumentByReference(documents, '1')).toBe(documents[1]);
+    });
+
+    it('does not treat a file name starting with digits as a number', () => {
+      const documents = documentsNamed('a.txt', '2024 report.pdf');
+      expect(findDocumentByReference(documents, '2024 report.pdf')).toBe(documents[1]);
+      expect(findDocumentByReference(documents, '1 a.txt')).toBeUndefined();
+    });
+
+    it('deletes the document together with its chunks', async () => {
+      await indexUserDocument(1, 'cats.txt', 'text/plain', CATS);
+      await indexUserDocument(1, 'rockets.txt', 'text/plain', ROCKETS);
+      const document = findDocumentByReference(await listUserDocuments(1), 'cats.txt')!;
+
+      expect(await deleteUserDocument(1, document._id!)).toBe(true);
+      expect((await listUserDocuments(1)).map(item => item.fileName)).toEqual(['rockets.txt']);
+      expect(chunksOf(1).map(chunk => chunk.fileName)).toEqual(['rockets.txt']);
+      expect(await findRelevantChunks(1, 'cat purrs happy mice')).toEqual([]);
+    });
+
+    it('does not delete documents of another user', async () => {
+      await indexUserDocument(2, 'cats.txt', 'text/plain', CATS);
+      const [document] = await listUserDocuments(2);
+
+      expect(await deleteUserDocument(1, document._id!)).toBe(false);
+      expect(chunksOf(2)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { ObjectId } from 'mongodb';
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
+
+import { db } from '../db';
+import { createEmbeddings, cosineSimilarity } from '../embeddings';
+
+interface UserDocument {
+  _id?: ObjectId;
+  userId: number;
+  fileName: string;
+  mimeType?: string;
+  chunksCount: number;
+  createdAt: Date;
+}
+
+interface DocumentChunk {
+  _id?: ObjectId;
+  userId: number;
+  documentId: ObjectId;
+  fileName: string;
+  chunkIndex: number;
+  text: string;
+  embedding: number[];
+}
+
+interface RetrievedChunk {
+  fileName: string;
+  chunkIndex: number;
+  text: string;
+  score: number;
+}
+
+const documents = () => db.collection<UserDocument>('documents');
+const documentChunks = () => db.collection<DocumentChunk>('document_chunks');
+
+// Настройки базы знаний пользователя (RAG)
+const KNOWLEDGE_CHUNK_SIZE = 1000; // в символах
+const KNOWLEDGE_CHUNK_OVERLAP = 150;
+const MAX_CHUNKS_PER_DOCUMENT = 300;
+const MAX_DOCUMENTS_PER_USER = 20;
+const RETRIEVAL_TOP_K = 4;
+const RETRIEVAL_MIN_SCORE = 0.3;
+// Сколько фрагментов сравниваем с запросом: эмбеддинги читаем пачками, а не все сразу
+const RETRIEVAL_MAX_CANDIDATES = 2000;
+const RETRIEVAL_BATCH_SIZE = 200;
+
+const embeddings = createEmbeddings();
+
+// Разбиваем документ на фрагменты, считаем эмбеддинги и сохраняем в базу знаний пользователя
+async function indexUserDocument(userId: number, fileName: string, mimeType: string | undefined, text: string): Promise<number> {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: KNOWLEDGE_CHUNK_SIZE,
+    chunkOverlap: KNOWLEDGE_CHUNK_OVERLAP,
+  });
+  const texts = (await splitter.splitText(text)).slice(0, MAX_CHUNKS_PER_DOCUMENT);
+  if (texts.length === 0) return 0;
+
+  const vectors = await embeddings.embedDocuments(texts);
+
+  // Повторная загрузка файла с тем же именем заменяет старую версию
+  const previous = await documents().findOne({ userId, fileName });
+  if (previous) {
+    await deleteUserDocument(userId, previous._id!);
+  }
+
+  // Освобождаем место, удаляя самые старые документы
+  const existing = await documents().find({ userId }).sort({ createdAt: 1 }).toArray();
+  for (const document of existing.slice(0, Math.max(0, existing.length - MAX_DOCUMENTS_PER_USER + 1))) {
+    await deleteUserDocument(userId, document._id!);
+  }
+
+  const result = await documents().insertOne({
+    userId,
+    fileName,
+    mimeType,
+    chunksCount: texts.length,
+    createdAt: new Date()
+  });
+
+  await documentChunks().insertMany(texts.map((chunkText, chunkIndex) => ({
+    userId,
+    documentId: result.insertedId,
+    fileName,
+    chunkIndex,
+    text: chunkText,
+    embedding: vectors[chunkIndex]
+  })));
+
+  return texts.length;
+}
+
+async function listUserDocuments(userId: number): Promise<UserDocument[]> {
+  return documents().find({ userId }).sort({ createdAt: 1 }).toArray();
+}
+
+// Документ из аргумента /forget_doc: точное имя файла или номер в списке /docs.
+// Имя проверяем первым, ведь файл может называться и «2024 report.pdf», и просто «2024».
+function findDocumentByReference(documents: UserDocument[], reference: string): UserDocument | undefined {
+  const byName = documents.find(item => item.fileName === reference);
+  if (byName || !/^\d+$/.test(reference)) return byName;
+  return documents[parseInt(reference, 10) - 1];
+}
+
+async function deleteUserDocument(userId: number, documentId: ObjectId): Promise<boolean> {
+  const result = await documents().deleteOne({ _id: documentId, userId });
+  await documentChunks().deleteMany({ documentId, userId });
+  return result.deletedCount > 0;
+}
+
+// Ищем фрагменты документов пользователя, наиболее близкие к запросу
+async function findRelevantChunks(userId: number, query: string): Promise<RetrievedChunk[]> {
+  if (!(await documents().countDocuments({ userId }, { limit: 1 }))) {
+    return [];
+  }
+
+  const queryVector = await embeddings.embedQuery(query);
+  // В памяти держим только лучшие RETRIEVAL_TOP_K; при переполнении предпочитаем новые документы
+  const cursor = documentChunks().find({ userId }, {
+    projection: { embedding: 1 },
+    sort: { documentId: -1 },
+    limit: RETRIEVAL_MAX_CANDIDATES,
+    batchSize: RETRIEVAL_BATCH_SIZE,
+  });
+  const best: { id: ObjectId, score: number }[] = [];
+  for await (const chunk of cursor) {
+    const score = cosineSimilarity(queryVector, chunk.embedding);
+    if (score < RETRIEVAL_MIN_SCORE) continue;
+    best.push({ id: chunk._id, score });
+    best.sort((a, b) => b.score - a.score);
+    best.splice(RETRIEVAL_TOP_K);
+  }
+  if (best.length === 0) return [];
+
+  // Тексты читаем только для отобранных фрагментов
+  const chunks = await documentChunks()
+    .find({ _id: { $in: best.map(item => item.id) } }, { projection: { fileName: 1, chunkIndex: 1, text: 1 } })
+    .toArray();
+  return best.flatMap(({ id, score }) => {
+    const chunk = chunks.find(item => item._id.equals(id));
+    return chunk ? [{ fileName: chunk.fileName, chunkIndex: chunk.chunkIndex, text: chunk.text, score }] : [];
+  });
+}
+
+function buildKnowledgeBaseMessage(chunks: RetrievedChunk[]): string {
+  const sources = chunks
+    .map((chunk, index) => `[${index + 1}] ${chunk.fileName}, фрагмент ${chunk.chunkIndex + 1}:\n${chunk.text}`)
+    .join('\n\n');
+
+  return 'Below are excerpts from documents the user has uploaded earlier. ' +
+    'Use them if they are relevant to the question and cite them as [n]. ' +
+    'At the end of the answer list the cited sources as "[n] file name, fragment". ' +
+    'If the excerpts are not relevant, answer without them and do not mention them.\n\n' +
+    sources;
+}
+
+export {
+  indexUserDocument,
+  deleteUserDocument,
+  listUserDocuments,
+  findDocumentByReference,
+  findRelevantChunks,
+  buildKnowledgeBaseMessage,
+};
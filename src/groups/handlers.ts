@@ -0,0 +1,43 @@
+import { Composer, Context } from 'telegraf';
+
+import {
+  GroupAccess,
+  GroupBilling,
+  getGroupSettings,
+  updateGroupSettings,
+  describeGroupSettings,
+  buildGroupSettingsKeyboard,
+} from '.';
+import { getI18n } from '../context';
+import { groupAdminOnly } from '../middleware';
+
+const groupsComposer = new Composer<Context>();
+
+groupsComposer.command('group_settings', groupAdminOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  const settings = await getGroupSettings(ctx.chat.id);
+  await ctx.reply(describeGroupSettings(t, settings), buildGroupSettingsKeyboard(t, settings));
+});
+
+async function handleGroupSettingsAction(
+  ctx: Context,
+  update: { access?: GroupAccess, billing?: GroupBilling }
+) {
+  const { t } = getI18n(ctx);
+  const chatId = ctx.chat!.id;
+  const settings = await updateGroupSettings(chatId, ctx.from!.id, update);
+  await ctx.answerCbQuery(t('group.settingsSaved'));
+  await ctx.editMessageText(describeGroupSettings(t, settings), buildGroupSettingsKeyboard(t, settings));
+}
+
+groupsComposer.action(/^group_access:(everyone|admins|premium)$/, groupAdminOnly, async (ctx) => {
+  await handleGroupSettingsAction(ctx, { access: ctx.match[1] as GroupAccess });
+});
+
+groupsComposer.action(/^group_billing:(sender|owner)$/, groupAdminOnly, async (ctx) => {
+  await handleGroupSettingsAction(ctx, { billing: ctx.match[1] as GroupBilling });
+});
+
+export {
+  groupsComposer,
+};
@@ -0,0 +1,125 @@
+import { Markup, Telegram } from 'telegraf';
+import { Chat, Message, MessageEntity } from 'telegraf/typings/core/types/typegram';
+import { ObjectId } from 'mongodb';
+
+import { db } from '../db';
+import { Translate } from '../i18n';
+
+// Кто может обращаться к боту в группе
+type GroupAccess = 'everyone' | 'admins' | 'premium';
+// Чей лимит расходуют ответы в группе: того, кто спросил, или администратора, который это включил
+type GroupBilling = 'sender' | 'owner';
+
+interface GroupSettings {
+  _id?: ObjectId;
+  chatId: number;
+  access: GroupAccess;
+  billing: GroupBilling;
+  ownerId?: number; // Администратор, чей лимит расходуется при billing === 'owner'
+  updatedBy?: number;
+  updatedAt?: Date;
+}
+
+const GROUP_ACCESS_OPTIONS: GroupAccess[] = ['everyone', 'admins', 'premium'];
+const GROUP_BILLING_OPTIONS: GroupBilling[] = ['sender', 'owner'];
+
+const groupSettings = () => db.collection<GroupSettings>('group_settings');
+
+function isGroupChat(chat: Chat | undefined): boolean {
+  return chat?.type === 'group' || chat?.type === 'supergroup';
+}
+
+async function getGroupSettings(chatId: number): Promise<GroupSettings> {
+  const settings = await groupSettings().findOne({ chatId });
+  return settings ?? { chatId, access: 'everyone', billing: 'sender' };
+}
+
+async function updateGroupSettings(
+  chatId: number,
+  adminId: number,
+  update: Partial<Pick<GroupSettings, 'access' | 'billing'>>
+): Promise<GroupSettings> {
+  const settings = await groupSettings().findOneAndUpdate(
+    { chatId },
+    {
+      $set: {
+        ...update,
+        // Лимит расходуется у того, кто включил оплату за счет администратора
+        ...(update.billing === 'owner' && { ownerId: adminId }),
+        updatedBy: adminId,
+        updatedAt: new Date(),
+      },
+      ...(update.billing === 'sender' && { $unset: { ownerId: '' } }),
+      $setOnInsert: {
+        chatId,
+        ...(!update.access && { access: 'everyone' }),
+        ...(!update.billing && { billing: 'sender' }),
+      },
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+  return settings!;
+}
+
+async function isChatAdmin(telegram: Telegram, chatId: number, userId: number): Promise<boolean> {
+  try {
+    const member = await telegram.getChatMember(chatId, userId);
+    return member.status === 'creator' || member.status === 'administrator';
+  } catch {
+    return false;
+  }
+}
+
+// Текст сообщения без упоминания бота или null, если бота не упомянули
+function stripBotMention(
+  text: string,
+  entities: MessageEntity[] = [],
+  bot: { id: number, username: string }
+): string | null {
+  const mention = entities.find(entity =>
+    (entity.type === 'mention' &&
+      text.slice(entity.offset, entity.offset + entity.length).toLowerCase() === `@${bot.username.toLowerCase()}`) ||
+    (entity.type === 'text_mention' && entity.user.id === bot.id)
+  );
+  if (!mention) return null;
+  return (text.slice(0, mention.offset) + text.slice(mention.offset + mention.length)).replace(/\s+/g, ' ').trim();
+}
+
+function isReplyToBot(message: Message, botId: number): boolean {
+  return 'reply_to_message' in message && message.reply_to_message?.from?.id === botId;
+}
+
+function describeGroupSettings(t: Translate, settings: GroupSettings): string {
+  return t('group.settings', {
+    access: t(`group.access.${settings.access}`),
+    billing: t(`group.billing.${settings.billing}`),
+  });
+}
+
+function buildGroupSettingsKeyboard(t: Translate, settings: GroupSettings) {
+  const mark = (selected: boolean) => selected ? '✅ ' : '';
+  return Markup.inlineKeyboard([
+    GROUP_ACCESS_OPTIONS.map(access =>
+      Markup.button.callback(mark(settings.access === access) + t(`group.access.${access}`), `group_access:${access}`)
+    ),
+    GROUP_BILLING_OPTIONS.map(billing =>
+      Markup.button.callback(mark(settings.billing === billing) + t(`group.billing.${billing}`), `group_billing:${billing}`)
+    ),
+  ]);
+}
+
+export {
+  GroupAccess,
+  GroupBilling,
+  GroupSettings,
+  GROUP_ACCESS_OPTIONS,
+  GROUP_BILLING_OPTIONS,
+  isGroupChat,
+  getGroupSettings,
+  updateGroupSettings,
+  isChatAdmin,
+  stripBotMention,
+  isReplyToBot,
+  describeGroupSettings,
+  buildGroupSettingsKeyboard,
+};
@@ -0,0 +1,468 @@
+import { Message, MessageKey } from '.';
+
+const en: Record<MessageKey, Message> = {
+  // Общее
+  'common.buyPremium': 'Buy premium',
+  'common.on': 'on',
+  'common.off': 'off',
+  'common.userNotFound': 'User not found.',
+  'common.invoiceError': 'Failed to create the invoice. Please try again later.',
+  'common.limitReached': 'You have used up your plan limit. Top up your request balance: /pay',
+  'common.usage': 'Usage: {usage}',
+  'common.fileTooLarge': 'Sorry, the file is larger than the maximum allowed size (10 MB).',
+
+  // Единицы
+  'unit.requests': { one: '{amount} request', other: '{amount} requests' },
+  'unit.bonusRequests': { one: '{amount} bonus request', other: '{amount} bonus requests' },
+  'unit.tokens': { one: '{amount} token', other: '{amount} tokens' },
+  'unit.credits': { one: '{amount} credit', other: '{amount} credits' },
+  'unit.days': { one: '{amount} day', other: '{amount} days' },
+  'unit.answers': { one: '{amount} answer', other: '{amount} answers' },
+  'unit.payments': { one: '{amount} payment', other: '{amount} payments' },
+  'unit.characters': { one: '{amount} character', other: '{amount} characters' },
+
+  // Тарифы и лимиты
+  'tier.free': 'free',
+  'tier.premium': 'premium',
+  'quota.perDay': '{amount} per day',
+  'quota.perMonth': '{amount} per month',
+  'quota.and': ' and ',
+  'quota.unlimited': 'unlimited',
+  'limit.free': 'You have used up the free plan limit. Buy a premium subscription or a request pack that never expires:',
+  'limit.premium': 'You have used up your plan limit. It renews at the start of the next period; meanwhile you can buy a request pack:',
+  'limit.packButton': '📦 Request pack',
+  'flood.warning': 'Too many messages in a row. Please wait a few seconds.',
+
+  // Ответы модели
+  'generation.busy': 'Please wait: I am still answering your previous message.',
+  'generation.stopButton': '⏹ Stop',
+  'generation.regenButton': '🔄 Regenerate',
+  'generation.continueButton': '✂️ Continue',
+  'generation.stopped': 'Generation stopped.',
+  'generation.empty': 'Sorry, the model returned an empty answer. Try rephrasing your request.',
+  'generation.error': 'Sorry, there was an error processing your request.',
+  'generation.stopDone': 'Generation stopped',
+  'generation.alreadyFinished': 'The answer is already finished',
+  'generation.threadNotFound': 'Conversation not found',
+  'generation.latestOnly': 'This is only available for the latest answer in the conversation',
+  'generation.noModel': 'No model is available for this request',
+  'usage.totals': '{answers}, {tokens} ({input} input, {output} output), ${cost}',
+
+  // Подписка
+  'subscription.expired': 'Your premium subscription has expired! 😢\n' +
+    'To keep using the extended features, please renew it with /pay',
+  'subscription.renewButton': 'Renew subscription',
+  'subscription.extendButton': 'Extend subscription',
+  'subscription.autoRenewReminder': 'Reminder: on {date} your premium subscription will renew automatically. ' +
+    'You can turn off auto-renewal with /cancel_subscription',
+  'subscription.expiryReminder': 'Your premium subscription ends on {date}. ' +
+    'Extend it to keep access to premium features.',
+  'subscription.none': 'You do not have an active premium subscription.',
+  'subscription.noAutoRenew': 'Your subscription does not auto-renew, you will not be charged again.',
+  'subscription.availableUntil': 'Premium is available until {date}.',
+  'subscription.autoRenewCancelled': 'Auto-renewal is off, you will not be charged again.',
+  'subscription.activeUntil': 'Premium stays active until {date}.',
+  'subscription.resumeButton': 'Resume auto-renewal',
+  'subscription.cancelError': 'Failed to cancel the subscription. Please try again later or contact support.',
+  'subscription.alreadyEnded': 'The subscription has already ended. Get a new one with /pay',
+  'subscription.autoRenewResumed': 'Auto-renewal is on again.',
+  'subscription.resumeError': 'Failed to resume auto-renewal. Please try again later.',
+
+  // Тарифные планы и пакеты
+  'plan.week': '7 days',
+  'plan.month': '30 days',
+  'plan.quarter': '90 days',
+  'plan.year': '365 days',
+  'plan.monthly': 'Monthly, auto-renewing',
+  'plans.button': '{plan} — {price} ⭐',
+  'plans.buttonDiscount': '{plan} — {price} ⭐ (instead of {fullPrice})',
+  'plans.premiumActive': 'You already have an active premium subscription!',
+  'plans.validUntil': 'Valid until {date}',
+  'plans.extendHint': 'You can extend it — the days will be added to the current term:',
+  'plans.choose': 'Choose a premium subscription term:',
+  'plans.discount': '{percent}% off with promo code {code} (except the auto-renewing subscription).',
+  'plans.packsButton': '📦 Request packs',
+  'plans.giftButton': '🎁 Gift premium',
+  'plans.notFound': 'Plan not found',
+  'packs.intro': 'Request packs top up a balance that is used after your plan limit and never expires',
+  'packs.balance': 'Current balance: {balance}',
+  'packs.discount': '{percent}% off with promo code {code}',
+  'packs.button': '+{requests} — {price} ⭐',
+  'packs.notFound': 'Pack not found',
+  'gift.choosePlan': 'Choose a premium term to gift. After payment you will get a code and a link to forward to a friend:',
+
+  // Счета и оплата
+  'invoice.premiumTitle': 'Premium subscription',
+  'invoice.premiumDescription': 'Premium subscription for {plan}',
+  'invoice.giftTitle': 'Premium gift',
+  'invoice.giftDescription': 'A code for a {plan} premium subscription for a friend',
+  'invoice.packTitle': 'Request pack',
+  'invoice.packDescription': '{requests} on top of your plan limit. Never expire.',
+  'invoice.packLabel': '+{requests}',
+  'invoice.premiumLabel': 'Premium subscription for {plan}',
+  'invoice.giftLabel': '{plan} of premium as a gift',
+  'invoice.recurringLabel': 'Premium subscription: {plan}',
+  'invoice.recurringOffer': 'Auto-renewing premium subscription: {amount} ⭐ every {days}. ' +
+    'You can turn off auto-renewal at any time with /cancel_subscription',
+  'invoice.recurringButton': 'Subscribe for {amount} ⭐',
+  'invoice.alreadyRecurring': 'You already have an auto-renewing subscription.',
+  'checkout.invoiceNotFound': 'Invoice not found',
+  'checkout.productUnavailable': 'This plan is no longer available. Please create a new invoice with /pay',
+  'checkout.amountMismatch': 'The payment amount does not match the invoice',
+  'checkout.invoiceClosed': 'The invoice is already paid or outdated. Please create a new one with /pay',
+  'checkout.error': 'An error occurred while checking the payment',
+  'payment.invoiceNotFound': 'Failed to process the payment. Please contact support.',
+  'payment.giftPurchased': `Thank you for your purchase! Your gift is {days} of premium.
+
+Forward this link to a friend:
+{link}
+
+Or the code for the /promo command: {code}
+The code is valid until {date}.`,
+  'payment.packPurchased': 'Thank you for your purchase! {requests} added to your balance, total: {balance}.',
+  'payment.autoRenewed': 'Your premium subscription has been renewed automatically until {date}. Thank you for staying with us!',
+  'payment.premiumExtended': 'Thank you for your purchase! Your premium subscription is extended until {date}.',
+  'payment.premiumActivated': 'Thank you for your purchase! Your premium subscription is active until {date}.',
+  'payment.error': 'An error occurred while processing the payment. Our team is already working on it.',
+  'refund.packNotice': '{amount} ⭐ has been refunded to you. The requests from the pack were removed from your balance.',
+  'refund.giftNotice': '{amount} ⭐ has been refunded to you. The gift code paid with this payment is disabled.',
+  'refund.premiumNotice': '{amount} ⭐ has been refunded to you. The premium subscription paid with this payment is disabled.',
+  'refund.premiumReducedNotice': '{amount} ⭐ has been refunded to you. The days paid with this payment were removed: premium is active until {date}.',
+
+  // Рефералы и промокоды
+  'referral.welcome': 'You came by a friend\'s invitation — welcome!',
+  'referral.activationReward': 'A user you invited has started using the bot. You received {requests}!',
+  'referral.paymentReward': 'A user you invited got premium. ' +
+    'You received {days} of premium — your subscription is valid until {date}!',
+  'referral.text': `Invite friends with your link:
+{link}
+
+For every friend who starts using the bot you get {activationBonus}, and if they get premium — {paymentBonus} of premium more.
+
+Invited: {invited}
+Started using the bot: {activated}
+Got premium: {paid}
+Earned: {earnedRequests} and {earnedDays} of premium`,
+  'promo.usage': 'Usage: /promo CODE',
+  'promo.notFound': 'Promo code not found.',
+  'promo.expired': 'The promo code has expired.',
+  'promo.alreadyRedeemed': 'You have already redeemed this promo code.',
+  'promo.giftAlreadyRedeemed': 'This gift has already been redeemed.',
+  'promo.limitReached': 'The promo code has no redemptions left.',
+  'promo.premiumActivated': 'Promo code redeemed! Your premium subscription is valid until {date}.',
+  'promo.requestsActivated': 'Promo code redeemed! You received {requests}.',
+  'promo.discountActivated': 'Promo code redeemed! {percent}% off will apply to your next purchase: /pay',
+  'promo.error': 'Failed to redeem the promo code. Please try again later.',
+
+  // Приветствие, профиль, помощь
+  'start.welcome': `Welcome to the AI bot!
+
+Our plans:
+1. Free: {freeQuota}
+2. Premium: {premiumQuota}
+
+Premium features:
+• Image and photo analysis
+• Document analysis (PDF, DOCX, TXT, CSV, JSON)
+• Voice answers to voice messages
+• Image generation (/imagine), {imageLimit} per day
+• More tokens per answer
+• Access to more powerful models (/model)
+
+Premium price: from {minPrice} ⭐ ({plans} or monthly with auto-renewal)
+
+Use /pay to buy a premium subscription.
+Invite friends and get bonuses: /referrals
+Bot language: /language`,
+  'profile.text': `This is your profile (/profile).
+ID: {userId}
+Username: {username}
+{subscription}
+Model: {model} (change: /model)
+Persona: {persona} (change: /persona)
+Language: {language} (change: /language)
+Time zone: {timeZone} (change: /timezone)
+
+Limits
+{limits}
+Daily limit renews: {nextReset}
+
+Usage
+today: {usageToday}
+this month: {usageMonth}`,
+  'profile.usernameMissing': 'not set',
+  'profile.subscription': 'Subscription: {tier}',
+  'profile.validUntil': 'Valid until: {date}',
+  'profile.autoRenewOn': 'Auto-renewal is on. Turn off: /cancel_subscription',
+  'profile.extend': 'Extend subscription: /pay',
+  'profile.buyPremium': 'To buy a premium subscription, tap /pay',
+  'profile.remaining': '{remaining} left of {limit}',
+  'profile.limitToday': 'today: {value}',
+  'profile.limitMonth': 'this month: {value}',
+  'profile.limitImages': 'images: {remaining}/{limit} left today',
+  'profile.limitBalance': 'request balance: {balance} (used after your plan limit, buy more: /pay)',
+  'profile.referralLink': 'Your referral link (/referrals):\n{link}',
+  'profile.voiceReplies': '🔊 Voice answers: {state}',
+  'profile.voiceRepliesLocked': '🔒 Voice answers (premium)',
+  'help.text': `Available commands:
+/start - Restart the bot and see the plans
+/profile - View your profile and statistics
+/pay - Buy a premium subscription
+/model - Choose a model
+/persona - Choose a persona or set your own prompt
+/imagine - Generate an image (premium)
+/cancel_subscription - Turn off subscription auto-renewal
+/new - Start a new conversation (you can add a title: /new Vacation)
+/chats - List conversations
+/switch - Switch to another conversation
+/reset - Reset the current conversation context
+/docs - List uploaded documents
+/referrals - Invite friends and get bonuses
+/promo - Redeem a promo code
+/gift - Gift premium to a friend
+/forget_doc - Remove a document from the knowledge base
+/language - Change the bot language
+/timezone - Set your time zone
+/help - Show this help message
+/about - Bot version
+
+In groups the bot answers /ask, mentions and replies to its messages.
+/group_settings - Bot settings for the group (admins only)
+
+You can ask me from any chat without leaving it: type @{bot} and your question.`,
+
+  // Описания команд в меню Telegram
+  'command.start': 'Restart the bot and see the plans',
+  'command.profile': 'View your profile and statistics',
+  'command.pay': 'Buy a premium subscription',
+  'command.model': 'Choose a model',
+  'command.persona': 'Choose the bot persona',
+  'command.imagine': 'Generate an image',
+  'command.cancel_subscription': 'Turn off subscription auto-renewal',
+  'command.new': 'Start a new conversation',
+  'command.chats': 'List conversations',
+  'command.switch': 'Switch to another conversation',
+  'command.reset': 'Reset the current conversation context',
+  'command.docs': 'List uploaded documents',
+  'command.forget_doc': 'Remove a document from the knowledge base',
+  'command.referrals': 'Invite friends and get bonuses',
+  'command.promo': 'Redeem a promo code',
+  'command.gift': 'Gift premium to a friend',
+  'command.language': 'Change the bot language',
+  'command.timezone': 'Set your time zone',
+  'command.help': 'Show the help message',
+  'command.about': 'Bot version',
+  'command.ask': 'Ask the bot a question',
+  'command.group_settings': 'Bot settings for this group',
+
+  // Язык и часовой пояс
+  'language.choose': 'Choose the bot language. "Auto" uses your Telegram language.',
+  'language.auto': '🌐 Auto',
+  'language.changed': 'Bot language: {language}',
+  'timezone.current': 'Your time zone: {timeZone}, your time is {time}.\n' +
+    'Change it: /timezone Europe/Berlin or /timezone +3',
+  'timezone.invalid': 'Could not recognise the time zone. Use an IANA name (for example, Europe/Berlin) ' +
+    'or a UTC offset in hours (for example, +3).',
+  'timezone.changed': 'Time zone changed: {timeZone}, your time is {time}.',
+
+  // Модели и персоны
+  'model.choose': 'Choose the default model.\n🖼 — understands images, ×N — how many requests one answer costs.',
+  'model.notFound': 'Model not found',
+  'model.premiumOnly': 'The {model} model is available to premium users only.',
+  'model.selected': 'Selected model: {model}',
+  'persona.assistant': '🤖 Assistant',
+  'persona.translator': '🌍 Translator',
+  'persona.code_reviewer': '👨‍💻 Code reviewer',
+  'persona.tutor': '🎓 Tutor',
+  'persona.editor': '✍️ Editor',
+  'persona.creative': '🎨 Creative',
+  'persona.custom': '✏️ Custom prompt',
+  'persona.customPremiumOnly': 'A custom system prompt is available to premium users only.',
+  'persona.customUsage': 'Add the prompt text: /persona custom You are an experienced lawyer, answer briefly and to the point',
+  'persona.customTooLong': 'The prompt is too long: {limit} at most.',
+  'persona.customSaved': 'Your system prompt is saved and will be used in all conversations.',
+  'persona.choose': 'Current persona: {persona}\n\n' +
+    'Choose a persona — it sets the style of the bot\'s answers.\n' +
+    'Premium users can set their own prompt: /persona custom <text>',
+  'persona.customAlert': 'A custom prompt is available to premium users only',
+  'persona.notFound': 'Persona not found',
+  'persona.selected': 'Selected persona: {persona}',
+
+  // Разговоры
+  'chats.untitled': 'New chat',
+  'chats.reset': 'The current conversation context has been reset.',
+  'chats.created': 'Started a new conversation "{title}". Previous conversations are available in /chats',
+  'chats.list': 'Your conversations. Tap a title to switch to it, or 🗑 to delete it:',
+  'chats.choose': 'Choose a conversation:',
+  'chats.notFound': 'Conversation not found. See the list with /chats',
+  'chats.switched': 'Switched to the conversation "{title}".',
+  'chats.switchNotFound': 'Conversation not found.',
+  'chats.deleted': 'Conversation deleted',
+  'chats.alreadyDeleted': 'Conversation already deleted',
+
+  // Группы
+  'group.askUsage': 'Write your question after the /ask command or after mentioning the bot.',
+  'group.privateOnly': 'This command is only available in a private chat with the bot.',
+  'group.groupOnly': 'This command only works in groups.',
+  'group.adminsOnly': 'Only administrators can change the bot settings in this group.',
+  'group.accessAdmins': 'In this group the bot only answers administrators.',
+  'group.accessPremium': 'In this group the bot only answers premium users. You can subscribe in a private chat with the bot.',
+  'group.ownerLimitReached': 'The limit allocated to this group has been used up. Please contact an administrator.',
+  'group.resetAdminsOnly': 'Only administrators can reset the conversation context in a group.',
+  'group.reset': 'The conversation context in this chat has been reset.',
+  'group.settings': `Bot settings for this group
+Who can ask: {access}
+Whose limit is used: {billing}
+
+If you choose "Administrator", answers will use the limit of whoever pressed the button.`,
+  'group.settingsSaved': 'Settings saved',
+  'group.access.everyone': 'Everyone',
+  'group.access.admins': 'Administrators',
+  'group.access.premium': 'Premium',
+  'group.billing.sender': 'Asker',
+  'group.billing.owner': 'Administrator',
+
+  // Inline-режим
+  'inline.hint': 'Type your question after the bot name',
+  'inline.limitReached': 'Plan limit reached — open the bot to top up',
+  'inline.shortTitle': '⚡ Short answer',
+  'inline.longTitle': '📝 Detailed answer',
+  'inline.longDescription': 'Send the question, the answer will appear in the message in a few seconds',
+  'inline.generating': '⏳ Writing the answer…',
+  'inline.askAgain': 'Ask again',
+
+  // Документы и база знаний
+  'docs.empty': 'You have not uploaded any documents yet. Send a file and I will be able to answer questions about it.',
+  'docs.list': 'Your documents:\n{list}\n\n' +
+    'I use them to answer your questions. To delete a document, use /forget_doc <number>',
+  'docs.none': 'You have no uploaded documents.',
+  'docs.chooseToDelete': 'Which document should I delete?',
+  'docs.notFound': 'Document not found. See the list with /docs',
+  'docs.deletedNamed': 'Document "{name}" was removed from the knowledge base.',
+  'docs.deleted': 'The document was removed from the knowledge base.',
+  'docs.alreadyDeleted': 'The document has already been removed.',
+  'files.premiumOnly': 'File analysis is available to premium users only.\nWould you like to get access to this feature?',
+  'files.unsupported': 'Sorry, this file format is not supported.\nSupported formats: PDF, DOCX, TXT, CSV, JSON.',
+  'files.unreadable': 'Could not read the file. It may be corrupted or password-protected.',
+  'files.noText': 'No text to analyse was found in the file. If it is a scan, send it as a photo.',
+  'files.largeDocument': 'The document is large, processing it in parts ({processed} of {total})...',
+  'files.truncated': 'The end of the document did not fit and will be skipped.',
+  'files.error': 'Sorry, there was an error processing your file.',
+  'photos.premiumOnly': 'Image analysis is available to premium users only.\nWould you like to get access to this feature?',
+  'photos.tooLarge': 'Sorry, the image is larger than the maximum allowed size (10 MB).',
+  'photos.noVisionModel': 'Sorry, none of the models available to you can analyse images.',
+  'photos.modelSwitched': 'The {selected} model does not support images, {model} will answer this message.',
+  'photos.error': 'Sorry, there was an error processing your photo.',
+  'messages.error': 'Sorry, there was an error processing your message.',
+
+  // Голосовые сообщения
+  'voice.tooLarge': 'Sorry, the audio is larger than the maximum allowed size (10 MB).',
+  'voice.tooLong': {
+    one: 'Sorry, I only transcribe messages up to {count} minute long.',
+    other: 'Sorry, I only transcribe messages up to {count} minutes long.',
+  },
+  'voice.notRecognized': 'Could not recognise speech in the message. Try recording it again.',
+  'voice.error': 'Sorry, there was an error processing your voice message.',
+  'voice.premiumOnly': 'Voice answers are available to premium users only.',
+  'voice.repliesOn': 'I will now answer voice messages with voice',
+  'voice.repliesOff': 'Voice answers are off',
+
+  // Изображения
+  'images.premiumOnly': 'Image generation is available to premium users only.\n' +
+    'Would you like to get access to this feature?',
+  'images.dailyLimit': 'You have reached the daily image generation limit ({limit}). Please try again tomorrow.',
+  'images.regenerateButton': '🎲 Draw again',
+  'images.regenerateHdButton': '✨ Again in HD',
+  'images.contentPolicy': 'The request was rejected by the generator\'s safety rules. Try changing the description.',
+  'images.error': 'Sorry, failed to generate the image. Please try again later.',
+  'images.notFound': 'Image not found.',
+  'imagine.usage': 'Describe the image after the command, for example: /imagine a cat in a spacesuit on the Moon, watercolor',
+  'imagine.tooLong': 'The description is too long: {limit} at most.',
+
+  // Администрирование
+  'admin.refundUsage': 'Usage: /refund <payment_id>',
+  'admin.refunded': 'Payment {paymentId} refunded: {amount} ⭐ to user {userId}, premium revoked.',
+  'admin.refundError': 'Failed to refund the payment: {error}',
+  'admin.userUsage': 'Usage: /admin_user <id|@username>',
+  'admin.grantUsage': 'Usage: /grant_premium <id|@username> <days>',
+  'admin.granted': 'User {userId} was granted premium until {date}.',
+  'admin.grantNotice': 'You have been granted a premium subscription until {date}!',
+  'admin.revokeUsage': 'Usage: /revoke_premium <id|@username>',
+  'admin.noPremium': 'The user does not have a premium subscription.',
+  'admin.revoked': 'Premium of user {userId} revoked.',
+  'admin.banUsage': 'Usage: /{command} <id|@username>',
+  'admin.cannotBanEnvAdmin': 'An administrator from ADMIN_IDS cannot be banned.',
+  'admin.banned': 'User {userId} is banned.',
+  'admin.unbanned': 'User {userId} is unbanned.',
+  'admin.roleUsage': 'Usage: /set_role <id|@username> <admin|user>',
+  'admin.roleSet': 'Role of user {userId}: {role}.',
+  'admin.promoUsage': `Usage: /create_promo CODE <days|requests|discount> <value> [redemptions|-] [YYYY-MM-DD]
+days — premium days, requests — bonus requests, discount — percent off the next invoice.
+For example: /create_promo SPRING discount 20 100 2026-05-31`,
+  'admin.promoExists': 'This promo code already exists.',
+  'admin.promoCreated': 'Promo code {code} created.',
+  'admin.userReport': `User {user}
+Role: {role}{banned}
+Subscription: {subscription}
+Model: {model}
+Last active: {lastActive}
+
+Usage
+Plan limit today: {quotaDaily}, this month: {quotaMonthly}
+Images today: {images}, request balance: {balance}
+Total generations: {generations}, images: {imagesTotal}
+Total: {usage}
+
+Recent payments:
+{payments}`,
+  'admin.reportBanned': '\nBanned',
+  'admin.reportUntil': ' until {date}',
+  'admin.reportAutoRenew': ', auto-renewal',
+  'admin.reportNone': 'none',
+  'admin.reportUnknown': 'unknown',
+  'admin.stats': `Statistics for the last 24 hours
+Active users: {dau}
+New users: {newUsers}
+Model requests: {requests}
+Images: {images}
+Model usage: {usageDay}
+Revenue: {revenueDay} ⭐ ({paymentsDay})
+
+Total
+Users: {totalUsers}, premium: {premiumUsers}
+Model usage: {usageTotal}
+Revenue: {revenueTotal} ⭐ ({paymentsTotal})
+Refunds: {refunded} ⭐ ({refundedPayments})`,
+
+  // Рассылки
+  'broadcast.usage': `Usage:
+/broadcast <all|free|premium|active:N>
+Message text
+[Button](https://example.com)
+
+Link buttons are the last lines of the message, one per line.
+To broadcast a photo, send the command as a reply to a message with the photo.
+active:N — users active in the last N days.`,
+  'broadcast.previewError': 'Failed to show the preview: {error}',
+  'broadcast.preview': 'Preview above. Recipients: {segment} — {recipients}.',
+  'broadcast.sendButton': '📣 Send',
+  'broadcast.cancelButton': 'Cancel',
+  'broadcast.stopButton': 'Stop',
+  'broadcast.alreadyStarted': 'The broadcast is already running or cancelled',
+  'broadcast.started': 'Broadcast started: {segment} — {recipients}. A report will follow when it is done.',
+  'broadcast.cancelled': 'Broadcast cancelled.',
+  'broadcast.segmentAll': 'all users',
+  'broadcast.segmentFree': 'free users',
+  'broadcast.segmentPremium': 'premium users',
+  'broadcast.segmentActive': 'active in the last {days} days',
+  'broadcast.statusCompleted': 'completed',
+  'broadcast.statusCancelled': 'cancelled',
+  'broadcast.statusSending': 'in progress',
+  'broadcast.report': `Broadcast {status} ({segment})
+Recipients: {recipients}
+Delivered: {sent}
+Blocked the bot: {blocked}
+Errors: {failed}`,
+};
+
+export { en };
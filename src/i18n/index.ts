@@ -0,0 +1,119 @@
+import { ru } from './ru';
+import { en } from './en';
+
+type Locale = 'ru' | 'en';
+
+// Формы по правилам Intl.PluralRules; форма выбирается по параметру count
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+type Message = string | PluralMessage;
+type MessageKey = keyof typeof ru;
+type Catalogue = Record<MessageKey, Message>;
+type MessageParams = Record<string, string | number>;
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+interface I18n {
+  locale: Locale;
+  timeZone: string;
+  t: Translate;
+  // Число с единицей измерения в нужной форме: t('unit.days', ...) -> «5 дней»
+  formatCount(key: MessageKey, count: number, maximumFractionDigits?: number): string;
+  formatNumber(value: number, maximumFractionDigits?: number): string;
+  formatDate(date: Date, options?: Intl.DateTimeFormatOptions): string;
+}
+
+const LOCALES: Locale[] = ['ru', 'en'];
+// Язык, когда язык пользователя неизвестен (например, в уведомлениях старым пользователям)
+const DEFAULT_LOCALE: Locale = 'ru';
+// Язык для всех, чей язык Telegram бот не поддерживает
+const FALLBACK_LOCALE: Locale = 'en';
+const DEFAULT_TIME_ZONE = 'Europe/Moscow';
+
+const LOCALE_NAMES: Record<Locale, string> = {
+  ru: '🇷🇺 Русский',
+  en: '🇬🇧 English',
+};
+
+const INTL_LOCALES: Record<Locale, string> = {
+  ru: 'ru-RU',
+  en: 'en-US',
+};
+
+const CATALOGUES: Record<Locale, Catalogue> = { ru, en };
+
+function isLocale(value: string | undefined): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Язык по language_code из Telegram: 'ru', 'en-GB' и т.п.
+function resolveLocale(languageCode?: string): Locale {
+  if (!languageCode) return DEFAULT_LOCALE;
+  const language = languageCode.split('-')[0].toLowerCase();
+  return isLocale(language) ? language : FALLBACK_LOCALE;
+}
+
+function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGUES[locale][key] ?? CATALOGUES[DEFAULT_LOCALE][key];
+  const template = typeof message === 'string'
+    ? message
+    : message[new Intl.PluralRules(INTL_LOCALES[locale]).select(Number(params.count ?? 0))] ?? message.other;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+// Часовой пояс: имя IANA (Europe/Berlin) или смещение от UTC в целых часах (+3, UTC-5).
+// Возвращает каноническое имя или null, если пояс не распознан.
+function parseTimeZone(input: string): string | null {
+  const offset = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})$/i.exec(input.trim());
+  // В зонах Etc/GMT знак смещения обратный: Etc/GMT-3 — это UTC+3
+  const timeZone = offset
+    ? (parseInt(offset[2], 10) === 0 ? 'UTC' : `Etc/GMT${offset[1] === '+' ? '-' : '+'}${parseInt(offset[2], 10)}`)
+    : input.trim();
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+// Etc/GMT-3 понятнее показывать как UTC+3
+function formatTimeZone(timeZone: string): string {
+  const etc = /^Etc\/GMT([+-])(\d+)$/.exec(timeZone);
+  return etc ? `UTC${etc[1] === '+' ? '-' : '+'}${etc[2]}` : timeZone;
+}
+
+function createI18n(locale: Locale, timeZone = DEFAULT_TIME_ZONE): I18n {
+  const intlLocale = INTL_LOCALES[locale];
+  const formatNumber = (value: number, maximumFractionDigits = 0) =>
+    value.toLocaleString(intlLocale, { maximumFractionDigits });
+  return {
+    locale,
+    timeZone,
+    t: (key, params) => translate(locale, key, params),
+    formatCount: (key, count, maximumFractionDigits = 0) =>
+      translate(locale, key, { count, amount: formatNumber(count, maximumFractionDigits) }),
+    formatNumber,
+    formatDate: (date, options = { year: 'numeric', month: 'long', day: 'numeric' }) =>
+      date.toLocaleString(intlLocale, { ...options, timeZone }),
+  };
+}
+
+export {
+  Locale,
+  Message,
+  MessageKey,
+  MessageParams,
+  Translate,
+  I18n,
+  LOCALES,
+  DEFAULT_LOCALE,
+  FALLBACK_LOCALE,
+  DEFAULT_TIME_ZONE,
+  LOCALE_NAMES,
+  isLocale,
+  resolveLocale,
+  translate,
+  parseTimeZone,
+  formatTimeZone,
+  createI18n,
+};
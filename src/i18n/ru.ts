@@ -0,0 +1,476 @@
+import { Message } from '.';
+
+// Русский каталог — основной: по нему проверяется полнота остальных каталогов
+const ru = {
+  // Общее
+  'common.buyPremium': 'Купить премиум',
+  'common.on': 'вкл',
+  'common.off': 'выкл',
+  'common.userNotFound': 'Пользователь не найден.',
+  'common.invoiceError': 'Произошла ошибка при создании счета. Пожалуйста, попробуйте позже.',
+  'common.limitReached': 'Вы исчерпали лимит тарифа. Пополнить баланс запросов: /pay',
+  'common.usage': 'Использование: {usage}',
+  'common.fileTooLarge': 'Извините, но размер файла превышает максимально допустимый (10 МБ).',
+
+  // Единицы
+  'unit.requests': { one: '{amount} запрос', few: '{amount} запроса', many: '{amount} запросов', other: '{amount} запроса' },
+  'unit.bonusRequests': {
+    one: '{amount} бонусный запрос',
+    few: '{amount} бонусных запроса',
+    many: '{amount} бонусных запросов',
+    other: '{amount} бонусного запроса',
+  },
+  'unit.tokens': { one: '{amount} токен', few: '{amount} токена', many: '{amount} токенов', other: '{amount} токена' },
+  'unit.credits': { one: '{amount} кредит', few: '{amount} кредита', many: '{amount} кредитов', other: '{amount} кредита' },
+  'unit.days': { one: '{amount} день', few: '{amount} дня', many: '{amount} дней', other: '{amount} дня' },
+  'unit.answers': { one: '{amount} ответ', few: '{amount} ответа', many: '{amount} ответов', other: '{amount} ответа' },
+  'unit.payments': { one: '{amount} платеж', few: '{amount} платежа', many: '{amount} платежей', other: '{amount} платежа' },
+  'unit.characters': { one: '{amount} символ', few: '{amount} символа', many: '{amount} символов', other: '{amount} символа' },
+
+  // Тарифы и лимиты
+  'tier.free': 'бесплатная',
+  'tier.premium': 'премиум',
+  'quota.perDay': '{amount} в день',
+  'quota.perMonth': '{amount} в месяц',
+  'quota.and': ' и ',
+  'quota.unlimited': 'без ограничений',
+  'limit.free': 'Вы исчерпали лимит бесплатного тарифа. Купите премиум подписку или пакет запросов, который не сгорает:',
+  'limit.premium': 'Вы исчерпали лимит тарифа. Он обновится в начале следующего периода, а пока можно купить пакет запросов:',
+  'limit.packButton': '📦 Пакет запросов',
+  'flood.warning': 'Слишком много сообщений подряд. Подождите несколько секунд.',
+
+  // Ответы модели
+  'generation.busy': 'Пожалуйста, подождите: я еще отвечаю на предыдущее сообщение.',
+  'generation.stopButton': '⏹ Стоп',
+  'generation.regenButton': '🔄 Заново',
+  'generation.continueButton': '✂️ Продолжить',
+  'generation.stopped': 'Генерация остановлена.',
+  'generation.empty': 'Извините, модель вернула пустой ответ. Попробуйте переформулировать запрос.',
+  'generation.error': 'Извините, произошла ошибка при обработке запроса.',
+  'generation.stopDone': 'Генерация остановлена',
+  'generation.alreadyFinished': 'Ответ уже завершен',
+  'generation.threadNotFound': 'Разговор не найден',
+  'generation.latestOnly': 'Это можно сделать только с последним ответом в разговоре',
+  'generation.noModel': 'Нет доступной модели для этого запроса',
+  'usage.totals': '{answers}, {tokens} ({input} входных, {output} выходных), ${cost}',
+
+  // Подписка
+  'subscription.expired': 'Ваша премиум подписка истекла! 😢\n' +
+    'Чтобы продолжить пользоваться расширенными возможностями, пожалуйста, обновите подписку командой /pay',
+  'subscription.renewButton': 'Обновить подписку',
+  'subscription.extendButton': 'Продлить подписку',
+  'subscription.autoRenewReminder': 'Напоминаем: {date} ваша премиум подписка продлится автоматически. ' +
+    'Отключить автопродление можно командой /cancel_subscription',
+  'subscription.expiryReminder': 'Ваша премиум подписка заканчивается {date}. ' +
+    'Продлите ее, чтобы не потерять доступ к премиум возможностям.',
+  'subscription.none': 'У вас нет активной премиум подписки.',
+  'subscription.noAutoRenew': 'У вашей подписки нет автопродления, повторных списаний не будет.',
+  'subscription.availableUntil': 'Премиум доступен до {date}.',
+  'subscription.autoRenewCancelled': 'Автопродление отключено, следующего списания не будет.',
+  'subscription.activeUntil': 'Премиум остается активным до {date}.',
+  'subscription.resumeButton': 'Возобновить автопродление',
+  'subscription.cancelError': 'Произошла ошибка при отмене подписки. Пожалуйста, попробуйте позже или обратитесь в поддержку.',
+  'subscription.alreadyEnded': 'Подписка уже закончилась. Оформите новую командой /pay',
+  'subscription.autoRenewResumed': 'Автопродление снова включено.',
+  'subscription.resumeError': 'Не удалось возобновить автопродление. Пожалуйста, попробуйте позже.',
+
+  // Тарифные планы и пакеты
+  'plan.week': '7 дней',
+  'plan.month': '30 дней',
+  'plan.quarter': '90 дней',
+  'plan.year': '365 дней',
+  'plan.monthly': 'Ежемесячно, с автопродлением',
+  'plans.button': '{plan} — {price} ⭐',
+  'plans.buttonDiscount': '{plan} — {price} ⭐ (вместо {fullPrice})',
+  'plans.premiumActive': 'У вас уже есть активная премиум подписка!',
+  'plans.validUntil': 'Срок действия: до {date}',
+  'plans.extendHint': 'Вы можете продлить ее — дни добавятся к текущему сроку:',
+  'plans.choose': 'Выберите срок премиум подписки:',
+  'plans.discount': 'Скидка {percent}% по промокоду {code} (кроме подписки с автопродлением).',
+  'plans.packsButton': '📦 Пакеты запросов',
+  'plans.giftButton': '🎁 Подарить премиум',
+  'plans.notFound': 'Тариф не найден',
+  'packs.intro': 'Пакеты запросов пополняют баланс, который расходуется после лимита тарифа и не сгорает',
+  'packs.balance': 'Сейчас на балансе: {balance}',
+  'packs.discount': 'Скидка {percent}% по промокоду {code}',
+  'packs.button': '+{requests} — {price} ⭐',
+  'packs.notFound': 'Пакет не найден',
+  'gift.choosePlan': 'Выберите срок премиума в подарок. После оплаты вы получите код и ссылку, которые можно переслать другу:',
+
+  // Счета и оплата
+  'invoice.premiumTitle': 'Премиум подписка',
+  'invoice.premiumDescription': 'Премиум подписка на {plan}',
+  'invoice.giftTitle': 'Премиум в подарок',
+  'invoice.giftDescription': 'Код на премиум подписку на {plan} для друга',
+  'invoice.packTitle': 'Пакет запросов',
+  'invoice.packDescription': '{requests} сверх лимита тарифа. Не сгорают.',
+  'invoice.packLabel': '+{requests}',
+  'invoice.premiumLabel': 'Премиум подписка на {plan}',
+  'invoice.giftLabel': 'Премиум на {plan} в подарок',
+  'invoice.recurringLabel': 'Премиум подписка: {plan}',
+  'invoice.recurringOffer': 'Премиум подписка с автопродлением: {amount} ⭐ каждые {days}. ' +
+    'Отменить автопродление можно в любой момент командой /cancel_subscription',
+  'invoice.recurringButton': 'Оформить за {amount} ⭐',
+  'invoice.alreadyRecurring': 'У вас уже оформлена подписка с автопродлением.',
+  'checkout.invoiceNotFound': 'Инвойс не найден',
+  'checkout.productUnavailable': 'Тариф больше недоступен. Пожалуйста, оформите новый счет командой /pay',
+  'checkout.amountMismatch': 'Сумма платежа не совпадает со счетом',
+  'checkout.invoiceClosed': 'Счет уже оплачен или устарел. Пожалуйста, оформите новый командой /pay',
+  'checkout.error': 'Произошла ошибка при проверке платежа',
+  'payment.invoiceNotFound': 'Ошибка при обработке платежа. Пожалуйста, обратитесь в поддержку.',
+  'payment.giftPurchased': `Спасибо за покупку! Ваш подарок — премиум на {days}.
+
+Перешлите другу ссылку:
+{link}
+
+Или код для команды /promo: {code}
+Код действует до {date}.`,
+  'payment.packPurchased': 'Спасибо за покупку! На баланс зачислено {requests}, всего: {balance}.',
+  'payment.autoRenewed': 'Ваша премиум подписка автоматически продлена до {date}. Спасибо, что остаетесь с нами!',
+  'payment.premiumExtended': 'Спасибо за покупку! Ваша премиум подписка продлена до {date}.',
+  'payment.premiumActivated': 'Спасибо за покупку! Ваша премиум подписка активирована до {date}.',
+  'payment.error': 'Произошла ошибка при обработке платежа. Наша команда уже работает над этим.',
+  'refund.packNotice': 'Вам возвращено {amount} ⭐. Запросы из пакета списаны с баланса.',
+  'refund.giftNotice': 'Вам возвращено {amount} ⭐. Подарочный код, оплаченный этим платежом, отключен.',
+  'refund.premiumNotice': 'Вам возвращено {amount} ⭐. Премиум подписка, оплаченная этим платежом, отключена.',
+  'refund.premiumReducedNotice': 'Вам возвращено {amount} ⭐. Дни, оплаченные этим платежом, списаны: премиум действует до {date}.',
+
+  // Рефералы и промокоды
+  'referral.welcome': 'Вы пришли по приглашению друга — добро пожаловать!',
+  'referral.activationReward': 'Приглашенный вами пользователь начал пользоваться ботом. Вам начислено {requests}!',
+  'referral.paymentReward': 'Приглашенный вами пользователь оформил премиум. ' +
+    'Вам начислено {days} премиума — подписка действует до {date}!',
+  'referral.text': `Приглашайте друзей по своей ссылке:
+{link}
+
+За каждого друга, который начнет пользоваться ботом, вы получите {activationBonus}, а если он оформит премиум — еще {paymentBonus} премиума.
+
+Приглашено: {invited}
+Начали пользоваться: {activated}
+Оформили премиум: {paid}
+Заработано: {earnedRequests} и {earnedDays} премиума`,
+  'promo.usage': 'Использование: /promo КОД',
+  'promo.notFound': 'Промокод не найден.',
+  'promo.expired': 'Срок действия промокода истек.',
+  'promo.alreadyRedeemed': 'Вы уже активировали этот промокод.',
+  'promo.giftAlreadyRedeemed': 'Этот подарок уже активирован.',
+  'promo.limitReached': 'Лимит активаций промокода исчерпан.',
+  'promo.premiumActivated': 'Промокод активирован! Премиум подписка действует до {date}.',
+  'promo.requestsActivated': 'Промокод активирован! Вам начислено {requests}.',
+  'promo.discountActivated': 'Промокод активирован! Скидка {percent}% применится к следующей покупке: /pay',
+  'promo.error': 'Не удалось активировать промокод. Пожалуйста, попробуйте позже.',
+
+  // Приветствие, профиль, помощь
+  'start.welcome': `Добро пожаловать в AI бота!
+
+Наши тарифы:
+1. Бесплатный: {freeQuota}
+2. Премиум: {premiumQuota}
+
+Премиум возможности:
+• Анализ изображений и фотографий
+• Анализ документов (PDF, DOCX, TXT, CSV, JSON)
+• Голосовые ответы на голосовые сообщения
+• Генерация изображений (/imagine), {imageLimit} в день
+• Больше токенов на ответ
+• Доступ к более мощным моделям (/model)
+
+Цена премиум подписки: от {minPrice} ⭐ ({plans} или ежемесячно с автопродлением)
+
+Используйте команду /pay для покупки премиум подписки.
+Приглашайте друзей и получайте бонусы: /referrals
+Язык бота: /language`,
+  'profile.text': `Это ваш профиль (/profile).
+ID: {userId}
+Username: {username}
+{subscription}
+Модель: {model} (сменить: /model)
+Персона: {persona} (сменить: /persona)
+Язык: {language} (сменить: /language)
+Часовой пояс: {timeZone} (сменить: /timezone)
+
+Лимиты
+{limits}
+Обновление дневного лимита: {nextReset}
+
+Использование
+сегодня: {usageToday}
+за месяц: {usageMonth}`,
+  'profile.usernameMissing': 'не указан',
+  'profile.subscription': 'Подписка: {tier}',
+  'profile.validUntil': 'Действует до: {date}',
+  'profile.autoRenewOn': 'Автопродление включено. Отключить: /cancel_subscription',
+  'profile.extend': 'Продлить подписку: /pay',
+  'profile.buyPremium': 'Для покупки премиум подписки нажмите /pay',
+  'profile.remaining': 'осталось {remaining} из {limit}',
+  'profile.limitToday': 'сегодня: {value}',
+  'profile.limitMonth': 'за месяц: {value}',
+  'profile.limitImages': 'изображений: осталось {remaining}/{limit} сегодня',
+  'profile.limitBalance': 'запросов на балансе: {balance} (расходуются после лимита тарифа, купить: /pay)',
+  'profile.referralLink': 'Ваша реферальная ссылка (/referrals):\n{link}',
+  'profile.voiceReplies': '🔊 Голосовые ответы: {state}',
+  'profile.voiceRepliesLocked': '🔒 Голосовые ответы (премиум)',
+  'help.text': `Доступные команды:
+/start - Перезапустить бота и посмотреть тарифы
+/profile - Посмотреть ваш профиль и статистику
+/pay - Купить премиум подписку
+/model - Выбрать модель
+/persona - Выбрать персону или задать свой промпт
+/imagine - Сгенерировать изображение (премиум)
+/cancel_subscription - Отключить автопродление подписки
+/new - Начать новый разговор (можно указать название: /new Отпуск)
+/chats - Список разговоров
+/switch - Переключиться на другой разговор
+/reset - Сбросить контекст текущего разговора
+/docs - Список загруженных документов
+/referrals - Пригласить друзей и получить бонусы
+/promo - Активировать промокод
+/gift - Подарить премиум другу
+/forget_doc - Удалить документ из базы знаний
+/language - Сменить язык бота
+/timezone - Указать часовой пояс
+/help - Показать это сообщение помощи
+/about - Версия бота
+
+В группах бот отвечает на /ask, упоминание и ответы на его сообщения.
+/group_settings - Настройки бота в группе (для администраторов)
+
+В любом чате можно спросить меня, не выходя из него: наберите @{bot} и вопрос.`,
+
+  // Описания команд в меню Telegram
+  'command.start': 'Перезапустить бота и посмотреть тарифы',
+  'command.profile': 'Посмотреть ваш профиль и статистику',
+  'command.pay': 'Купить премиум подписку',
+  'command.model': 'Выбрать модель',
+  'command.persona': 'Выбрать персону бота',
+  'command.imagine': 'Сгенерировать изображение',
+  'command.cancel_subscription': 'Отключить автопродление подписки',
+  'command.new': 'Начать новый разговор',
+  'command.chats': 'Список разговоров',
+  'command.switch': 'Переключиться на другой разговор',
+  'command.reset': 'Сбросить контекст текущего разговора',
+  'command.docs': 'Список загруженных документов',
+  'command.forget_doc': 'Удалить документ из базы знаний',
+  'command.referrals': 'Пригласить друзей и получить бонусы',
+  'command.promo': 'Активировать промокод',
+  'command.gift': 'Подарить премиум другу',
+  'command.language': 'Сменить язык бота',
+  'command.timezone': 'Указать часовой пояс',
+  'command.help': 'Показать сообщение помощи',
+  'command.about': 'Версия бота',
+  'command.ask': 'Задать вопрос боту',
+  'command.group_settings': 'Настройки бота в группе',
+
+  // Язык и часовой пояс
+  'language.choose': 'Выберите язык бота. «Авто» — язык вашего Telegram.',
+  'language.auto': '🌐 Авто',
+  'language.changed': 'Язык бота: {language}',
+  'timezone.current': 'Ваш часовой пояс: {timeZone}, сейчас у вас {time}.\n' +
+    'Изменить: /timezone Europe/Berlin или /timezone +3',
+  'timezone.invalid': 'Не удалось распознать часовой пояс. Укажите название из базы IANA (например, Europe/Berlin) ' +
+    'или смещение от UTC в часах (например, +3).',
+  'timezone.changed': 'Часовой пояс изменен: {timeZone}, сейчас у вас {time}.',
+
+  // Модели и персоны
+  'model.choose': 'Выберите модель по умолчанию.\n🖼 — понимает изображения, ×N — во сколько запросов обходится один ответ.',
+  'model.notFound': 'Модель не найдена',
+  'model.premiumOnly': 'Модель {model} доступна только премиум пользователям.',
+  'model.selected': 'Выбрана модель {model}',
+  'persona.assistant': '🤖 Ассистент',
+  'persona.translator': '🌍 Переводчик',
+  'persona.code_reviewer': '👨‍💻 Код-ревьюер',
+  'persona.tutor': '🎓 Репетитор',
+  'persona.editor': '✍️ Редактор',
+  'persona.creative': '🎨 Креативщик',
+  'persona.custom': '✏️ Свой промпт',
+  'persona.customPremiumOnly': 'Собственный системный промпт доступен только премиум пользователям.',
+  'persona.customUsage': 'Укажите текст промпта: /persona custom Ты — опытный юрист, отвечай кратко и по делу',
+  'persona.customTooLong': 'Промпт слишком длинный: максимум {limit}.',
+  'persona.customSaved': 'Ваш системный промпт сохранен и будет использоваться во всех разговорах.',
+  'persona.choose': 'Текущая персона: {persona}\n\n' +
+    'Выберите персону — она задает стиль ответов бота.\n' +
+    'Премиум пользователи могут задать свой промпт: /persona custom <текст>',
+  'persona.customAlert': 'Свой промпт доступен только премиум пользователям',
+  'persona.notFound': 'Персона не найдена',
+  'persona.selected': 'Выбрана персона {persona}',
+
+  // Разговоры
+  'chats.untitled': 'Новый чат',
+  'chats.reset': 'Контекст текущего разговора был сброшен.',
+  'chats.created': 'Начат новый разговор «{title}». Предыдущие разговоры доступны в /chats',
+  'chats.list': 'Ваши разговоры. Нажмите на название, чтобы переключиться, или 🗑, чтобы удалить:',
+  'chats.choose': 'Выберите разговор:',
+  'chats.notFound': 'Разговор не найден. Посмотрите список командой /chats',
+  'chats.switched': 'Вы переключились на разговор «{title}».',
+  'chats.switchNotFound': 'Разговор не найден.',
+  'chats.deleted': 'Разговор удален',
+  'chats.alreadyDeleted': 'Разговор уже удален',
+
+  // Группы
+  'group.askUsage': 'Напишите вопрос после команды /ask или после упоминания бота.',
+  'group.privateOnly': 'Эта команда доступна только в личном чате с ботом.',
+  'group.groupOnly': 'Эта команда работает только в группах.',
+  'group.adminsOnly': 'Настройки бота в группе доступны только администраторам.',
+  'group.accessAdmins': 'В этой группе бот отвечает только администраторам.',
+  'group.accessPremium': 'В этой группе бот отвечает только пользователям с премиум подпиской. Оформить ее можно в личном чате с ботом.',
+  'group.ownerLimitReached': 'Лимит, выделенный для этой группы, исчерпан. Обратитесь к администратору.',
+  'group.resetAdminsOnly': 'Сбросить контекст разговора в группе могут только администраторы.',
+  'group.reset': 'Контекст разговора в этом чате сброшен.',
+  'group.settings': `Настройки бота в этой группе
+Кто может спрашивать: {access}
+Чей лимит расходуется: {billing}
+
+Если выбрать «Администратор», ответы будут расходовать лимит того, кто нажал кнопку.`,
+  'group.settingsSaved': 'Настройки сохранены',
+  'group.access.everyone': 'Все',
+  'group.access.admins': 'Администраторы',
+  'group.access.premium': 'Премиум',
+  'group.billing.sender': 'Спросивший',
+  'group.billing.owner': 'Администратор',
+
+  // Inline-режим
+  'inline.hint': 'Напишите вопрос после имени бота',
+  'inline.limitReached': 'Лимит тарифа исчерпан — откройте бота, чтобы пополнить',
+  'inline.shortTitle': '⚡ Короткий ответ',
+  'inline.longTitle': '📝 Подробный ответ',
+  'inline.longDescription': 'Отправить вопрос, ответ появится в сообщении через несколько секунд',
+  'inline.generating': '⏳ Пишу ответ…',
+  'inline.askAgain': 'Спросить еще',
+
+  // Документы и база знаний
+  'docs.empty': 'У вас пока нет загруженных документов. Отправьте файл, и я смогу отвечать на вопросы по нему.',
+  'docs.list': 'Ваши документы:\n{list}\n\n' +
+    'Я использую их, чтобы отвечать на ваши вопросы. Чтобы удалить документ, используйте /forget_doc <номер>',
+  'docs.none': 'У вас нет загруженных документов.',
+  'docs.chooseToDelete': 'Какой документ удалить?',
+  'docs.notFound': 'Документ не найден. Посмотрите список командой /docs',
+  'docs.deletedNamed': 'Документ «{name}» удален из базы знаний.',
+  'docs.deleted': 'Документ удален из базы знаний.',
+  'docs.alreadyDeleted': 'Документ уже удален.',
+  'files.premiumOnly': 'Анализ файлов доступен только для премиум пользователей.\nХотите получить доступ к этой функции?',
+  'files.unsupported': 'Извините, этот формат файла не поддерживается.\nПоддерживаемые форматы: PDF, DOCX, TXT, CSV, JSON.',
+  'files.unreadable': 'Не удалось прочитать содержимое файла. Возможно, файл поврежден или защищен паролем.',
+  'files.noText': 'В файле не найден текст для анализа. Если это скан, отправьте его как фото.',
+  'files.largeDocument': 'Документ большой, обрабатываю его по частям ({processed} из {total})...',
+  'files.truncated': 'Конец документа не поместился и будет пропущен.',
+  'files.error': 'Извините, произошла ошибка при обработке вашего файла.',
+  'photos.premiumOnly': 'Анализ изображений доступен только для премиум пользователей.\nХотите получить доступ к этой функции?',
+  'photos.tooLarge': 'Извините, но размер изображения превышает максимально допустимый (10 МБ).',
+  'photos.noVisionModel': 'Извините, ни одна из доступных вам моделей не умеет анализировать изображения.',
+  'photos.modelSwitched': 'Модель {selected} не поддерживает изображения, на это сообщение ответит {model}.',
+  'photos.error': 'Извините, произошла ошибка при обработке вашей фотографии.',
+  'messages.error': 'Извините, произошла ошибка при обработке вашего сообщения.',
+
+  // Голосовые сообщения
+  'voice.tooLarge': 'Извините, но размер аудио превышает максимально допустимый (10 МБ).',
+  'voice.tooLong': {
+    one: 'Извините, я расшифровываю сообщения длительностью до {count} минуты.',
+    few: 'Извините, я расшифровываю сообщения длительностью до {count} минут.',
+    many: 'Извините, я расшифровываю сообщения длительностью до {count} минут.',
+    other: 'Извините, я расшифровываю сообщения длительностью до {count} минуты.',
+  },
+  'voice.notRecognized': 'Не удалось разобрать речь в сообщении. Попробуйте записать его еще раз.',
+  'voice.error': 'Извините, произошла ошибка при обработке голосового сообщения.',
+  'voice.premiumOnly': 'Голосовые ответы доступны только премиум пользователям.',
+  'voice.repliesOn': 'Теперь я буду отвечать голосом на голосовые сообщения',
+  'voice.repliesOff': 'Голосовые ответы выключены',
+
+  // Изображения
+  'images.premiumOnly': 'Генерация изображений доступна только для премиум пользователей.\n' +
+    'Хотите получить доступ к этой функции?',
+  'images.dailyLimit': 'Вы достигли дневного лимита генерации изображений ({limit}). Попробуйте снова завтра.',
+  'images.regenerateButton': '🎲 Нарисовать заново',
+  'images.regenerateHdButton': '✨ Заново в HD',
+  'images.contentPolicy': 'Запрос отклонен правилами безопасности генератора. Попробуйте изменить описание.',
+  'images.error': 'Извините, не удалось сгенерировать изображение. Попробуйте позже.',
+  'images.notFound': 'Изображение не найдено.',
+  'imagine.usage': 'Опишите изображение после команды, например: /imagine кот в скафандре на Луне, акварель',
+  'imagine.tooLong': 'Описание слишком длинное: максимум {limit}.',
+
+  // Администрирование
+  'admin.refundUsage': 'Использование: /refund <payment_id>',
+  'admin.refunded': 'Платеж {paymentId} возвращен: {amount} ⭐ пользователю {userId}, премиум отозван.',
+  'admin.refundError': 'Не удалось вернуть платеж: {error}',
+  'admin.userUsage': 'Использование: /admin_user <id|@username>',
+  'admin.grantUsage': 'Использование: /grant_premium <id|@username> <дней>',
+  'admin.granted': 'Пользователю {userId} выдан премиум до {date}.',
+  'admin.grantNotice': 'Вам выдана премиум подписка до {date}!',
+  'admin.revokeUsage': 'Использование: /revoke_premium <id|@username>',
+  'admin.noPremium': 'У пользователя нет премиум подписки.',
+  'admin.revoked': 'Премиум пользователя {userId} отозван.',
+  'admin.banUsage': 'Использование: /{command} <id|@username>',
+  'admin.cannotBanEnvAdmin': 'Нельзя заблокировать администратора из ADMIN_IDS.',
+  'admin.banned': 'Пользователь {userId} заблокирован.',
+  'admin.unbanned': 'Пользователь {userId} разблокирован.',
+  'admin.roleUsage': 'Использование: /set_role <id|@username> <admin|user>',
+  'admin.roleSet': 'Роль пользователя {userId}: {role}.',
+  'admin.promoUsage': `Использование: /create_promo КОД <days|requests|discount> <значение> [активаций|-] [ГГГГ-ММ-ДД]
+days — дни премиума, requests — бонусные запросы, discount — скидка в процентах на следующий счет.
+Например: /create_promo SPRING discount 20 100 2026-05-31`,
+  'admin.promoExists': 'Такой промокод уже существует.',
+  'admin.promoCreated': 'Промокод {code} создан.',
+  'admin.userReport': `Пользователь {user}
+Роль: {role}{banned}
+Подписка: {subscription}
+Модель: {model}
+Последняя активность: {lastActive}
+
+Использование
+Лимит тарифа сегодня: {quotaDaily}, за месяц: {quotaMonthly}
+Изображений сегодня: {images}, баланс запросов: {balance}
+Всего генераций: {generations}, изображений: {imagesTotal}
+Всего: {usage}
+
+Последние платежи:
+{payments}`,
+  'admin.reportBanned': '\nЗаблокирован',
+  'admin.reportUntil': ' до {date}',
+  'admin.reportAutoRenew': ', автопродление',
+  'admin.reportNone': 'нет',
+  'admin.reportUnknown': 'неизвестно',
+  'admin.stats': `Статистика за последние 24 часа
+Активных пользователей: {dau}
+Новых пользователей: {newUsers}
+Запросов к модели: {requests}
+Изображений: {images}
+Расход моделей: {usageDay}
+Выручка: {revenueDay} ⭐ ({paymentsDay})
+
+Всего
+Пользователей: {totalUsers}, из них премиум: {premiumUsers}
+Расход моделей: {usageTotal}
+Выручка: {revenueTotal} ⭐ ({paymentsTotal})
+Возвраты: {refunded} ⭐ ({refundedPayments})`,
+
+  // Рассылки
+  'broadcast.usage': `Использование:
+/broadcast <all|free|premium|active:N>
+Текст сообщения
+[Кнопка](https://example.com)
+
+Кнопки-ссылки — последние строки сообщения, по одной на строку.
+Чтобы разослать фото, отправьте команду ответом на сообщение с фото.
+active:N — пользователи, активные за последние N дней.`,
+  'broadcast.previewError': 'Не удалось показать предпросмотр: {error}',
+  'broadcast.preview': 'Предпросмотр выше. Получатели: {segment} — {recipients}.',
+  'broadcast.sendButton': '📣 Отправить',
+  'broadcast.cancelButton': 'Отменить',
+  'broadcast.stopButton': 'Остановить',
+  'broadcast.alreadyStarted': 'Рассылка уже запущена или отменена',
+  'broadcast.started': 'Рассылка запущена: {segment} — {recipients}. Отчет придет по завершении.',
+  'broadcast.cancelled': 'Рассылка отменена.',
+  'broadcast.segmentAll': 'все пользователи',
+  'broadcast.segmentFree': 'бесплатные пользователи',
+  'broadcast.segmentPremium': 'премиум пользователи',
+  'broadcast.segmentActive': 'активные за {days} дн.',
+  'broadcast.statusCompleted': 'завершена',
+  'broadcast.statusCancelled': 'отменена',
+  'broadcast.statusSending': 'идет',
+  'broadcast.report': `Рассылка {status} ({segment})
+Получателей: {recipients}
+Доставлено: {sent}
+Заблокировали бота: {blocked}
+Ошибок: {failed}`,
+} satisfies Record<string, Message>;
+
+export { ru };
@@ -0,0 +1,110 @@
+import { Composer, Context, Markup } from 'telegraf';
+import { ObjectId } from 'mongodb';
+import OpenAI from 'openai';
+
+import { ImageQuality, createImageProvider, images } from '.';
+import { getUserProfile, users } from '../users';
+import { getI18n } from '../context';
+import { PREMIUM_DAILY_IMAGE_LIMIT, updateUserImageRequests } from '../usage';
+
+const imagesComposer = new Composer<Context>();
+
+const MAX_IMAGE_PROMPT_LENGTH = 1000;
+
+const imageProvider = createImageProvider();
+
+async function replyImagesPremiumOnly(ctx: Context) {
+  const { t } = getI18n(ctx);
+  await ctx.reply(
+    t('images.premiumOnly'),
+    Markup.inlineKeyboard([Markup.button.callback(t('common.buyPremium'), 'buy_premium')])
+  );
+}
+
+// Генерируем изображение и отправляем его: обычное — фото с кнопками, в HD — файлом без сжатия
+async function generateAndSendImage(ctx: Context, userId: number, prompt: string, quality: ImageQuality) {
+  const { t } = getI18n(ctx);
+  const canGenerate = await updateUserImageRequests(userId);
+  if (!canGenerate) {
+    await ctx.reply(t('images.dailyLimit', { limit: PREMIUM_DAILY_IMAGE_LIMIT }));
+    return;
+  }
+
+  try {
+    await ctx.sendChatAction('upload_photo');
+    const image = await imageProvider.generate(prompt, quality);
+
+    const { insertedId } = await images().insertOne({ userId, prompt, quality, createdAt: new Date() });
+    const caption = prompt.slice(0, 1000);
+
+    if (quality === 'hd') {
+      await ctx.replyWithDocument({ source: image, filename: 'image.png' }, { caption });
+      return;
+    }
+
+    await ctx.replyWithPhoto({ source: image }, {
+      caption,
+      ...Markup.inlineKeyboard([
+        Markup.button.callback(t('images.regenerateButton'), `img_var:${insertedId}`),
+        Markup.button.callback(t('images.regenerateHdButton'), `img_up:${insertedId}`)
+      ])
+    });
+  } catch (error) {
+    // Изображение не получено — возвращаем списанный лимит
+    await users().updateOne({ userId }, { $inc: { dailyImages: -1 } });
+
+    if (error instanceof OpenAI.BadRequestError && error.code === 'content_policy_violation') {
+      await ctx.reply(t('images.contentPolicy'));
+      return;
+    }
+    console.error('Error generating image:', error);
+    await ctx.reply(t('images.error'));
+  }
+}
+
+imagesComposer.command('imagine', async (ctx) => {
+  const userId = ctx.from.id;
+  const user = await getUserProfile(userId, ctx.from.username);
+
+  if (user.subscription !== 'premium') {
+    await replyImagesPremiumOnly(ctx);
+    return;
+  }
+
+  const i18n = getI18n(ctx);
+  const prompt = ctx.message.text.split(' ').slice(1).join(' ').trim();
+  if (!prompt) {
+    await ctx.reply(i18n.t('imagine.usage'));
+    return;
+  }
+  if (prompt.length > MAX_IMAGE_PROMPT_LENGTH) {
+    await ctx.reply(i18n.t('imagine.tooLong', { limit: i18n.formatCount('unit.characters', MAX_IMAGE_PROMPT_LENGTH) }));
+    return;
+  }
+
+  await generateAndSendImage(ctx, userId, prompt, 'standard');
+});
+
+// У провайдера нет вариаций и увеличения готовой картинки, поэтому кнопки заново рисуют по тому же описанию.
+// Данные кнопок прежние, чтобы работали и уже отправленные сообщения.
+imagesComposer.action(/^img_(var|up):([0-9a-f]{24})$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const userId = ctx.from!.id;
+  const user = await getUserProfile(userId);
+  if (user.subscription !== 'premium') {
+    await replyImagesPremiumOnly(ctx);
+    return;
+  }
+
+  const image = await images().findOne({ _id: new ObjectId(ctx.match[2]), userId });
+  if (!image) {
+    await ctx.reply(getI18n(ctx).t('images.notFound'));
+    return;
+  }
+
+  await generateAndSendImage(ctx, userId, image.prompt, ctx.match[1] === 'up' ? 'hd' : 'standard');
+});
+
+export {
+  imagesComposer,
+};
@@ -0,0 +1,74 @@
+import OpenAI from 'openai';
+import { ObjectId } from 'mongodb';
+import * as dotenv from 'dotenv';
+
+import { db } from '../db';
+
+dotenv.config();
+
+const IMAGES_PROVIDER = process.env.IMAGES_PROVIDER || 'openai';
+const IMAGE_MODEL = process.env.IMAGE_MODEL || 'dall-e-3';
+
+// Прозрачный PNG 1x1 для локальной заглушки
+const STUB_IMAGE_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+type ImageQuality = 'standard' | 'hd';
+
+interface ImageProvider {
+  generate(prompt: string, quality: ImageQuality): Promise<Buffer>;
+}
+
+interface GeneratedImage {
+  _id?: ObjectId;
+  userId: number;
+  prompt: string;
+  quality: ImageQuality;
+  createdAt: Date;
+}
+
+const images = () => db.collection<GeneratedImage>('images');
+
+// Генерация через OpenAI-совместимый API (DALL·E)
+const openAIImageProvider = (client: OpenAI): ImageProvider => ({
+  async generate(prompt, quality) {
+    const response = await client.images.generate({
+      model: IMAGE_MODEL,
+      prompt,
+      n: 1,
+      size: '1024x1024',
+      quality,
+      response_format: 'b64_json',
+    });
+    const image = response.data[0]?.b64_json;
+    if (!image) {
+      throw new Error('Image provider returned no image');
+    }
+    return Buffer.from(image, 'base64');
+  },
+});
+
+// Локальная заглушка без сети — для разработки и тестов
+const localImageProvider: ImageProvider = {
+  async generate() {
+    return Buffer.from(STUB_IMAGE_BASE64, 'base64');
+  },
+};
+
+function createImageProvider(): ImageProvider {
+  if (IMAGES_PROVIDER === 'local') {
+    return localImageProvider;
+  }
+  return openAIImageProvider(new OpenAI({
+    apiKey: process.env.IMAGES_API_KEY || process.env.OPENROUTER_API_KEY,
+    baseURL: process.env.IMAGES_BASE_URL || undefined,
+  }));
+}
+
+export {
+  ImageProvider,
+  ImageQuality,
+  GeneratedImage,
+  images,
+  createImageProvider,
+};
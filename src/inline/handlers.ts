@@ -0,0 +1,185 @@
+import { Composer, Context } from 'telegraf';
+import { ChatCompletionMessageParam } from 'openai/resources';
+
+import { ModelConfig, getMaxTokens, getModelByKey, resolveModel } from '../models';
+import {
+  SHORT_RESULT_PREFIX,
+  LONG_RESULT_ID,
+  MIN_INLINE_QUERY_LENGTH,
+  SHORT_ANSWER_TIMEOUT_MS,
+  SHORT_ANSWER_MAX_TOKENS,
+  LONG_ANSWER_MAX_TOKENS,
+  SHORT_ANSWER_INSTRUCTION,
+  LONG_ANSWER_INSTRUCTION,
+  waitForLatestQuery,
+  saveShortAnswer,
+  takeShortAnswer,
+  formatInlineAnswer,
+  buildInlineMarkup,
+  buildInlineResults,
+} from '.';
+import { UserProfile, getUserProfile } from '../users';
+import { getI18n } from '../context';
+import { openai, estimateTokens, estimateMessagesTokens } from '../llm';
+import { consumeQuota, hasQuota, recordUsage } from '../usage';
+import { getBilledUser, chargeQuota, getQuota } from '../middleware';
+import { getUserPersona } from '../chat/generation';
+
+const inlineComposer = new Composer<Context>();
+
+interface InlineAnswer {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+}
+
+// Ответ на inline-запрос: без истории разговора и базы знаний, ведь вопрос задают из чужого чата.
+// Расход не записывает: короткий ответ оплачивается, только если его выберут.
+async function generateInlineAnswer(
+  user: UserProfile,
+  model: ModelConfig,
+  question: string,
+  options: { instruction: string, maxTokens: number, timeout?: number }
+): Promise<InlineAnswer | undefined> {
+  const persona = getUserPersona(user);
+  const messages: ChatCompletionMessageParam[] = [
+    { role: 'system', content: persona.systemPrompt },
+    { role: 'system', content: options.instruction },
+    { role: 'user', content: question }
+  ];
+  const completion = await openai.chat.completions.create({
+    model: model.id,
+    messages,
+    temperature: persona.temperature,
+    max_tokens: Math.min(options.maxTokens, getMaxTokens(model, user.subscription)),
+  }, { timeout: options.timeout, maxRetries: 0 });
+
+  const text = completion.choices[0]?.message?.content?.trim();
+  if (!text) return undefined;
+
+  return {
+    text,
+    inputTokens: completion.usage?.prompt_tokens ?? estimateMessagesTokens(messages),
+    outputTokens: completion.usage?.completion_tokens ?? estimateTokens(text),
+    estimated: !completion.usage,
+  };
+}
+
+// Короткий ответ уже отправлен в чат: списываем за него лимит и записываем расход сохраненной генерации
+async function chargeShortAnswer(userId: number, queryId: string) {
+  const shortAnswer = (await takeShortAnswer(userId, queryId))?.shortAnswer;
+  const model = shortAnswer && getModelByKey(shortAnswer.modelKey);
+  if (!shortAnswer || !model) return;
+
+  // Лимит проверяли перед генерацией; если его успели израсходовать, расход все равно учитываем
+  const charge = await consumeQuota(userId, model);
+  await recordUsage(userId, {
+    kind: 'chat',
+    modelId: model.id,
+    requests: charge?.requests ?? 0,
+    inputTokens: shortAnswer.inputTokens,
+    outputTokens: shortAnswer.outputTokens,
+    estimated: shortAnswer.estimated,
+    billing: charge?.billing,
+  });
+}
+
+// Inline-режим: «@бот вопрос» в любом чате. Короткий ответ готовим сразу, подробный — после выбора результата.
+// Лимиты у каждого свои, поэтому результаты не кешируем.
+inlineComposer.on('inline_query', async (ctx) => {
+  const userId = ctx.from.id;
+  const queryId = ctx.inlineQuery.id;
+  const question = ctx.inlineQuery.query.trim();
+  const { t } = getI18n(ctx);
+
+  if (question.length < MIN_INLINE_QUERY_LENGTH) {
+    await ctx.answerInlineQuery([], {
+      cache_time: 0,
+      is_personal: true,
+      button: { text: t('inline.hint'), start_parameter: 'inline' },
+    });
+    return;
+  }
+
+  try {
+    if (!(await waitForLatestQuery(userId, queryId))) return;
+
+    const user = await getUserProfile(userId, ctx.from.username);
+    const model = resolveModel(user.subscription, user.selectedModel);
+    if (!(await hasQuota(userId, model))) {
+      await ctx.answerInlineQuery([], {
+        cache_time: 0,
+        is_personal: true,
+        button: { text: t('inline.limitReached'), start_parameter: 'inline' },
+      });
+      return;
+    }
+
+    // Не успели — предлагаем только подробный ответ
+    const shortAnswer = await generateInlineAnswer(user, model, question, {
+      instruction: SHORT_ANSWER_INSTRUCTION,
+      maxTokens: SHORT_ANSWER_MAX_TOKENS,
+      timeout: SHORT_ANSWER_TIMEOUT_MS,
+    }).catch(error => {
+      console.error('Error generating inline answer:', error);
+      return undefined;
+    });
+    if (shortAnswer) {
+      const { text, ...usage } = shortAnswer;
+      await saveShortAnswer(queryId, { text, modelKey: model.key, ...usage });
+    }
+
+    await ctx.answerInlineQuery(buildInlineResults(t, queryId, question, shortAnswer?.text), { cache_time: 0, is_personal: true });
+  } catch (error) {
+    console.error('Error answering inline query:', error);
+  }
+});
+
+// Подробный ответ: сообщение с заглушкой уже отправлено, генерируем ответ и подставляем его
+inlineComposer.on('chosen_inline_result', async (ctx, next) => {
+  const { result_id, inline_message_id } = ctx.chosenInlineResult;
+  if (result_id.startsWith(SHORT_RESULT_PREFIX)) {
+    await chargeShortAnswer(ctx.from.id, result_id.slice(SHORT_RESULT_PREFIX.length))
+      .catch(error => console.error('Error charging inline answer:', error));
+    return;
+  }
+  if (result_id !== LONG_RESULT_ID || !inline_message_id) return;
+
+  try {
+    await next();
+  } catch (error) {
+    console.error('Error answering chosen inline result:', error);
+    const { t } = getI18n(ctx);
+    await ctx.editMessageText(t('generation.error'), buildInlineMarkup(t)).catch(() => undefined);
+  }
+}, chargeQuota(), async (ctx) => {
+  const question = ctx.chosenInlineResult.query.trim();
+  const { model, charge } = getQuota(ctx);
+  const { t } = getI18n(ctx);
+  const markup = buildInlineMarkup(t);
+
+  const answer = await generateInlineAnswer(getBilledUser(ctx), model, question, {
+    instruction: LONG_ANSWER_INSTRUCTION,
+    maxTokens: LONG_ANSWER_MAX_TOKENS,
+  });
+  if (answer) {
+    await recordUsage(charge.userId, {
+      kind: 'chat',
+      modelId: model.id,
+      requests: charge.requests,
+      inputTokens: answer.inputTokens,
+      outputTokens: answer.outputTokens,
+      estimated: answer.estimated,
+      billing: charge.billing,
+    });
+    charge.settled = true;
+  }
+  await (answer
+    ? ctx.editMessageText(formatInlineAnswer(question, answer.text), { parse_mode: 'HTML', ...markup })
+    : ctx.editMessageText(t('generation.empty'), markup));
+});
+
+export {
+  inlineComposer,
+};
@@ -0,0 +1,127 @@
+import { Markup } from 'telegraf';
+import { InlineQueryResult } from 'telegraf/typings/core/types/typegram';
+import { ObjectId } from 'mongodb';
+
+import { db } from '../db';
+import { Translate } from '../i18n';
+import { escapeHtml, markdownToTelegramHtml } from '../renderer';
+
+// Короткий ответ генерируется прямо в inline-запросе, пока пользователь выбирает результат.
+// Подробный ответ пишется уже после отправки сообщения: бот редактирует его по мере генерации
+// (нужна обратная связь по inline-результатам — /setinlinefeedback в BotFather).
+// Лимит списывается только за выбранный результат.
+const SHORT_RESULT_PREFIX = 'short:'; // Дальше id inline-запроса, по нему находим сохраненный ответ
+const LONG_RESULT_ID = 'long';
+
+const MIN_INLINE_QUERY_LENGTH = 3;
+// Telegram присылает запрос почти на каждое нажатие клавиши — отвечаем, только когда ввод затих
+const INLINE_DEBOUNCE_MS = 800;
+// Ответ на inline-запрос нужно успеть отправить, пока Telegram его ждет
+const SHORT_ANSWER_TIMEOUT_MS = 8000;
+const SHORT_ANSWER_MAX_TOKENS = 300;
+const LONG_ANSWER_MAX_TOKENS = 1000;
+const MAX_INLINE_MESSAGE_LENGTH = 4000;
+const MAX_DESCRIPTION_LENGTH = 120;
+
+const SHORT_ANSWER_INSTRUCTION = 'Answer briefly, in a few sentences: the answer will be sent ' +
+  'as a single message to another chat.';
+const LONG_ANSWER_INSTRUCTION = 'The answer will be sent as a single message to another chat, ' +
+  'keep it under 3000 characters.';
+
+// Inline-запрос и короткий ответ на него. Запросы одного пользователя могут обрабатывать
+// разные экземпляры функции, поэтому самый свежий определяем по базе.
+interface InlineQueryRecord {
+  _id?: ObjectId;
+  userId: number;
+  queryId: string;
+  shortAnswer?: {
+    text: string;
+    modelKey: string;
+    inputTokens: number;
+    outputTokens: number;
+    estimated: boolean;
+  };
+  chargedAt?: Date; // Короткий ответ выбран и оплачен
+  createdAt: Date;
+}
+
+const inlineQueries = () => db.collection<InlineQueryRecord>('inline_queries');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Ждем паузы во вводе. Возвращает false, если за это время пришел более новый запрос.
+async function waitForLatestQuery(userId: number, queryId: string): Promise<boolean> {
+  await inlineQueries().insertOne({ userId, queryId, createdAt: new Date() });
+  await sleep(INLINE_DEBOUNCE_MS);
+  const latest = await inlineQueries().findOne({ userId }, { sort: { createdAt: -1 } });
+  return latest?.queryId === queryId;
+}
+
+async function saveShortAnswer(queryId: string, shortAnswer: NonNullable<InlineQueryRecord['shortAnswer']>) {
+  await inlineQueries().updateOne({ queryId }, { $set: { shortAnswer } });
+}
+
+// Отмечает короткий ответ оплаченным. Повторная доставка того же выбора вернет null.
+async function takeShortAnswer(userId: number, queryId: string): Promise<InlineQueryRecord | null> {
+  return inlineQueries().findOneAndUpdate(
+    { userId, queryId, shortAnswer: { $exists: true }, chargedAt: { $exists: false } },
+    { $set: { chargedAt: new Date() } }
+  );
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Вопрос и ответ в одном сообщении, чтобы в чате было понятно, о чем речь
+function formatInlineAnswer(question: string, answer: string): string {
+  const html = `❓ <i>${escapeHtml(truncate(question, 300))}</i>\n\n${markdownToTelegramHtml(answer)}`;
+  return html.length > MAX_INLINE_MESSAGE_LENGTH ? escapeHtml(truncate(answer, MAX_INLINE_MESSAGE_LENGTH)) : html;
+}
+
+// У подробного ответа обязательно есть кнопка: без клавиатуры Telegram не сообщит inline_message_id
+function buildInlineMarkup(t: Translate) {
+  return Markup.inlineKeyboard([Markup.button.switchToCurrentChat(t('inline.askAgain'), '')]);
+}
+
+function buildInlineResults(t: Translate, queryId: string, question: string, shortAnswer?: string): InlineQueryResult[] {
+  const results: InlineQueryResult[] = [];
+  if (shortAnswer) {
+    results.push({
+      type: 'article',
+      id: `${SHORT_RESULT_PREFIX}${queryId}`,
+      title: t('inline.shortTitle'),
+      description: truncate(shortAnswer.replace(/\s+/g, ' '), MAX_DESCRIPTION_LENGTH),
+      input_message_content: { message_text: formatInlineAnswer(question, shortAnswer), parse_mode: 'HTML' },
+    });
+  }
+  results.push({
+    type: 'article',
+    id: LONG_RESULT_ID,
+    title: t('inline.longTitle'),
+    description: t('inline.longDescription'),
+    input_message_content: {
+      message_text: `❓ <i>${escapeHtml(truncate(question, 300))}</i>\n\n${escapeHtml(t('inline.generating'))}`,
+      parse_mode: 'HTML',
+    },
+    ...buildInlineMarkup(t),
+  });
+  return results;
+}
+
+export {
+  SHORT_RESULT_PREFIX,
+  LONG_RESULT_ID,
+  MIN_INLINE_QUERY_LENGTH,
+  SHORT_ANSWER_TIMEOUT_MS,
+  SHORT_ANSWER_MAX_TOKENS,
+  LONG_ANSWER_MAX_TOKENS,
+  SHORT_ANSWER_INSTRUCTION,
+  LONG_ANSWER_INSTRUCTION,
+  waitForLatestQuery,
+  saveShortAnswer,
+  takeShortAnswer,
+  formatInlineAnswer,
+  buildInlineMarkup,
+  buildInlineResults,
+};
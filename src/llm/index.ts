@@ -0,0 +1,51 @@
+import OpenAI from 'openai';
+import { ChatCompletionContentPart, ChatCompletionMessageParam } from 'openai/resources';
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENROUTER_API_KEY,
+  baseURL: 'https://openrouter.ai/api/v1',
+  defaultHeaders: {
+    'X-Title': 'Telegram GPT Bot'
+  }
+});
+
+const MESSAGE_TOKEN_OVERHEAD = 4;
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+const SUMMARY_MODEL = 'gpt-4o-mini';
+
+let tokenizer: Tiktoken | undefined;
+
+// Считаем токены токенизатором o200k_base (gpt-4o / gpt-4o-mini)
+function estimateTokens(text: string): number {
+  tokenizer ??= getEncoding('o200k_base');
+  return tokenizer.encode(text, [], []).length;
+}
+
+function estimatePromptTokens(prompt: string | Array<ChatCompletionContentPart>): number {
+  if (typeof prompt === 'string') {
+    return estimateTokens(prompt);
+  }
+  return prompt.reduce(
+    (total, part) => total + (part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKEN_ESTIMATE),
+    0
+  );
+}
+
+function estimateMessagesTokens(messages: ChatCompletionMessageParam[]): number {
+  return messages.reduce((total, message) => total + MESSAGE_TOKEN_OVERHEAD + (
+    typeof message.content === 'string' || Array.isArray(message.content)
+      ? estimatePromptTokens(message.content as string | Array<ChatCompletionContentPart>)
+      : 0
+  ), 0);
+}
+
+export {
+  openai,
+  MESSAGE_TOKEN_OVERHEAD,
+  SUMMARY_MODEL,
+  estimateTokens,
+  estimatePromptTokens,
+  estimateMessagesTokens,
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Composer, Context } from 'telegraf';
+
+vi.mock('../db', () => import('../testing').then(({ memoryDb }) => ({ db: memoryDb })));
+
+import { createI18n } from '../i18n';
+import { floodLimit } from '.';
+
+const WARNING = createI18n('en').t('flood.warning');
+const runFloodLimit = Composer.unwrap(floodLimit);
+
+// Обновление с профилем отправителя, который загрузил trackSender
+function createContext(count: number, update: Partial<Context> = { message: { text: 'hi' } as Context['message'] }) {
+  return {
+    from: { id: 1, language_code: 'en' },
+    state: { sender: { burst: { windowStart: new Date(), count } } },
+    reply: vi.fn(async () => undefined),
+    answerCbQuery: vi.fn(async () => true),
+    ...update,
+  } as unknown as Context & { reply: ReturnType<typeof vi.fn>, answerCbQuery: ReturnType<typeof vi.fn> };
+}
+
+describe('floodLimit', () => {
+  it('passes messages within the burst limit', async () => {
+    const ctx = createContext(8);
+    const next = vi.fn(async () => undefined);
+
+    await runFloodLimit(ctx, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(ctx.reply).not.toHaveBeenCalled();
+  });
+
+  it('drops the message over the limit and warns once', async () => {
+    const next = vi.fn(async () => undefined);
+    const first = createContext(9);
+    const second = createContext(10);
+
+    await runFloodLimit(first, next);
+    await runFloodLimit(second, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(first.reply).toHaveBeenCalledWith(WARNING);
+    expect(second.reply).not.toHaveBeenCalled();
+  });
+
+  it('warns about button presses with a notification', async () => {
+    const ctx = createContext(9, { callbackQuery: { id: '1', data: 'regenerate' } as Context['callbackQuery'] });
+    const next = vi.fn(async () => undefined);
+
+    await runFloodLimit(ctx, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(ctx.answerCbQuery).toHaveBeenCalledWith(WARNING);
+    expect(ctx.reply).not.toHaveBeenCalled();
+  });
+
+  it('does not drop payments', async () => {
+    const ctx = createContext(20, { message: { successful_payment: {} } as Context['message'] });
+    const next = vi.fn(async () => undefined);
+
+    await runFloodLimit(ctx, next);
+
+    expect(next).toHaveBeenCalledOnce();
+  });
+
+  it('still drops the update when the warning cannot be sent', async () => {
+    const ctx = createContext(9);
+    ctx.reply.mockRejectedValueOnce(new Error('Forbidden: bot was blocked by the user'));
+    const next = vi.fn(async () => undefined);
+
+    await expect(runFloodLimit(ctx, next)).resolves.toBeUndefined();
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,286 @@
+import { Context, Markup, Middleware } from 'telegraf';
+
+import { ModelConfig, resolveModel } from '../models';
+import { MessageKey, resolveLocale, createI18n } from '../i18n';
+import { isGroupChat, getGroupSettings, isChatAdmin } from '../groups';
+import { buildInlineMarkup } from '../inline';
+import {
+  UserProfile,
+  getUserI18n,
+  getUserProfile,
+  isEnvAdmin,
+  isAdmin,
+  users,
+} from '../users';
+import { getI18n, isAddressedToBot } from '../context';
+import { QuotaCharge, runGeneration } from '../usage';
+import { checkAndUpdateSubscriptionStatus, isSubscriptionExpired } from '../billing/subscriptions';
+
+const BURST_WINDOW_MS = 10 * 1000;
+const BURST_LIMIT = 8;
+
+// Поля профиля отправителя, которые нужны общим проверкам цепочки
+type SenderState = Pick<
+  UserProfile,
+  'banned' | 'burst' | 'language' | 'languageCode' | 'timezone' | 'subscription' | 'subscriptionExpiryDate' | 'autoRenew'
+>;
+
+// Лимит, списанный за ответ модели, и модель, которой отвечаем
+interface GenerationQuota {
+  model: ModelConfig;
+  charge: QuotaCharge;
+}
+
+// Сообщения и нажатия кнопок, которые отправил сам пользователь (а не платежи и служебные обновления)
+const isUserAction = (ctx: Context) =>
+  Boolean(ctx.callbackQuery || (ctx.message && !('successful_payment' in ctx.message)));
+
+// Ответ на проверку: на кнопку — всплывающим уведомлением, на сообщение — сообщением
+async function replyNotice(ctx: Context, text: string) {
+  await (ctx.callbackQuery ? ctx.answerCbQuery(text, { show_alert: true }) : ctx.reply(text));
+}
+
+// В группах бот реагирует только на обращения к себе: команды, упоминания и ответы на его сообщения.
+// Остальные сообщения участников отбрасываем до антифлуда и учета активности.
+const addressedOnly: Middleware<Context> = async (ctx, next) => {
+  if (!isGroupChat(ctx.chat) || !ctx.message || isAddressedToBot(ctx)) {
+    return next();
+  }
+};
+
+// Отмечаем активность для статистики и загружаем поля профиля для следующих проверок.
+// Тем же запросом считаем сообщения и нажатия кнопок в коротком окне антифлуда.
+// Здесь же определяем язык и часовой пояс для ответов на это обновление.
+const trackSender: Middleware<Context> = async (ctx, next) => {
+  if (!ctx.from) return next();
+
+  const now = new Date();
+  const languageCode = ctx.from.language_code;
+  const user = await users().findOneAndUpdate(
+    { userId: ctx.from.id },
+    [
+      {
+        $set: {
+          lastActiveAt: now,
+          ...(languageCode && { languageCode }),
+          ...(isUserAction(ctx) && {
+            burst: {
+              $cond: [
+                { $gt: ['$burst.windowStart', new Date(now.getTime() - BURST_WINDOW_MS)] },
+                { windowStart: '$burst.windowStart', count: { $add: ['$burst.count', 1] } },
+                { windowStart: now, count: 1 }
+              ]
+            }
+          })
+        }
+      },
+      { $unset: 'blockedBot' }
+    ],
+    {
+      projection: {
+        banned: 1, burst: 1, language: 1, languageCode: 1, timezone: 1,
+        subscription: 1, subscriptionExpiryDate: 1, autoRenew: 1,
+      },
+      returnDocument: 'after'
+    }
+  );
+  ctx.state.sender = user ?? undefined;
+  ctx.state.i18n = user ? getUserI18n(user) : createI18n(resolveLocale(languageCode));
+  return next();
+};
+
+function getSender(ctx: Context): SenderState | undefined {
+  return ctx.state.sender;
+}
+
+// Заблокированным пользователям бот не отвечает
+const banCheck: Middleware<Context> = async (ctx, next) => {
+  if (getSender(ctx)?.banned && !isEnvAdmin(ctx.from!.id)) {
+    return;
+  }
+  return next();
+};
+
+// При флуде лишние обновления отбрасываем
+const floodLimit: Middleware<Context> = async (ctx, next) => {
+  const burst = getSender(ctx)?.burst;
+  if (isUserAction(ctx) && burst && burst.count > BURST_LIMIT) {
+    // Предупреждаем один раз за окно, остальное молча пропускаем
+    if (burst.count === BURST_LIMIT + 1) {
+      const warning = getI18n(ctx).t('flood.warning');
+      await (ctx.callbackQuery ? ctx.answerCbQuery(warning) : ctx.reply(warning)).catch(() => undefined);
+    }
+    return;
+  }
+  return next();
+};
+
+// Истекшую подписку переводим на free до обработки, чтобы обработчики видели актуальный тариф.
+// Уведомляем, только когда пользователь сам написал боту или нажал кнопку.
+const refreshSubscription: Middleware<Context> = async (ctx, next) => {
+  const sender = getSender(ctx);
+  if (sender && isSubscriptionExpired(sender)) {
+    await checkAndUpdateSubscriptionStatus(ctx.from!.id, isUserAction(ctx) ? ctx : undefined);
+  }
+  return next();
+};
+
+// Админские команды для остальных пользователей молча игнорируются, как неизвестные
+const adminOnly: Middleware<Context> = async (ctx, next) => {
+  if (ctx.from && await isAdmin(ctx.from.id)) {
+    return next();
+  }
+};
+
+// Личные команды (профиль, оплата, разговоры, документы) работают только в личном чате
+const privateOnly: Middleware<Context> = async (ctx, next) => {
+  if (!isGroupChat(ctx.chat)) {
+    return next();
+  }
+  await ctx.reply(getI18n(ctx).t('group.privateOnly'));
+};
+
+// Назначать роли могут только администраторы из ADMIN_IDS
+const envAdminOnly: Middleware<Context> = async (ctx, next) => {
+  if (ctx.from && isEnvAdmin(ctx.from.id)) {
+    return next();
+  }
+};
+
+// Настройки группы меняют только ее администраторы
+const groupAdminOnly: Middleware<Context> = async (ctx, next) => {
+  const { t } = getI18n(ctx);
+  if (!isGroupChat(ctx.chat)) {
+    await replyNotice(ctx, t('group.groupOnly'));
+    return;
+  }
+  if (!(await isChatAdmin(ctx.telegram, ctx.chat!.id, ctx.from!.id))) {
+    await replyNotice(ctx, t('group.adminsOnly'));
+    return;
+  }
+  return next();
+};
+
+// Чей лимит расходует ответ: в личном чате — самого пользователя, в группе — по настройкам группы.
+// Возвращает null (и объясняет причину), если настройки группы не разрешают участнику обращаться к боту.
+async function resolveBilledUserId(ctx: Context): Promise<number | null> {
+  const userId = ctx.from!.id;
+  if (!isGroupChat(ctx.chat)) return userId;
+
+  const { t } = getI18n(ctx);
+  const settings = await getGroupSettings(ctx.chat!.id);
+  if (settings.access === 'admins' && !(await isChatAdmin(ctx.telegram, ctx.chat!.id, userId))) {
+    await ctx.reply(t('group.accessAdmins'));
+    return null;
+  }
+  if (settings.access === 'premium' && (await getUserProfile(userId, ctx.from!.username)).subscription !== 'premium') {
+    await ctx.reply(t('group.accessPremium'));
+    return null;
+  }
+  return settings.billing === 'owner' && settings.ownerId ? settings.ownerId : userId;
+}
+
+// Загружает профиль того, за чей счет будет ответ; дальше по цепочке его возвращает getBilledUser
+const resolveBilling: Middleware<Context> = async (ctx, next) => {
+  const billedUserId = await resolveBilledUserId(ctx);
+  if (billedUserId === null) return;
+
+  setBilledUser(ctx, await getUserProfile(billedUserId, billedUserId === ctx.from!.id ? ctx.from!.username : undefined));
+  return next();
+};
+
+function setBilledUser(ctx: Context, user: UserProfile) {
+  ctx.state.billedUser = user;
+}
+
+function getBilledUser(ctx: Context): UserProfile {
+  return ctx.state.billedUser;
+}
+
+// Премиум-функции (файлы, фото) доступны, только если премиум у того, за чей счет ответ
+const premiumOnly = (messageKey: MessageKey): Middleware<Context> => async (ctx, next) => {
+  if (getBilledUser(ctx).subscription === 'premium') {
+    return next();
+  }
+  const { t } = getI18n(ctx);
+  await ctx.reply(
+    t(messageKey),
+    Markup.inlineKeyboard([
+      Markup.button.callback(t('common.buyPremium'), 'buy_premium')
+    ])
+  );
+};
+
+async function notifyLimitReached(ctx: Context, user: UserProfile) {
+  const { t } = getI18n(ctx);
+  if (ctx.callbackQuery) {
+    await ctx.answerCbQuery(t('common.limitReached'), { show_alert: true });
+    return;
+  }
+  if (ctx.inlineQuery) {
+    await ctx.answerInlineQuery([], {
+      cache_time: 0,
+      is_personal: true,
+      button: { text: t('inline.limitReached'), start_parameter: 'inline' },
+    });
+    return;
+  }
+  if (ctx.chosenInlineResult) {
+    await ctx.editMessageText(t('inline.limitReached'), buildInlineMarkup(t));
+    return;
+  }
+  // В группе мог закончиться лимит администратора — предлагать покупку спросившему бессмысленно
+  if (user.userId !== ctx.from?.id) {
+    await ctx.reply(t('group.ownerLimitReached'));
+    return;
+  }
+  if (user.subscription === 'free') {
+    await ctx.reply(t('limit.free'),
+      Markup.inlineKeyboard([
+        Markup.button.callback(t('common.buyPremium'), 'buy_premium'),
+        Markup.button.callback(t('limit.packButton'), 'request_packs')
+      ]));
+  } else {
+    await ctx.reply(t('limit.premium'),
+      Markup.inlineKeyboard([Markup.button.callback(t('limit.packButton'), 'request_packs')]));
+  }
+}
+
+// Списывает лимит за ответ модели и держит блокировку генерации, пока отвечают следующие обработчики.
+// Если ответ так и не получен, списание возвращается. Без resolveBilling платит сам отправитель.
+const chargeQuota = (
+  selectModel: (user: UserProfile, ctx: Context) => ModelConfig | undefined =
+    user => resolveModel(user.subscription, user.selectedModel)
+): Middleware<Context> => async (ctx, next) => {
+  const user = ctx.state.billedUser ?? await getUserProfile(ctx.from!.id, ctx.from!.username);
+  setBilledUser(ctx, user);
+  const model = selectModel(user, ctx);
+  if (!model) return;
+
+  await runGeneration(ctx, user.userId, model, () => notifyLimitReached(ctx, user), async (charge) => {
+    ctx.state.quota = { model, charge };
+    await next();
+  });
+};
+
+function getQuota(ctx: Context): GenerationQuota {
+  return ctx.state.quota;
+}
+
+export {
+  addressedOnly,
+  trackSender,
+  banCheck,
+  floodLimit,
+  refreshSubscription,
+  adminOnly,
+  privateOnly,
+  envAdminOnly,
+  groupAdminOnly,
+  resolveBilling,
+  setBilledUser,
+  getBilledUser,
+  premiumOnly,
+  chargeQuota,
+  getQuota,
+};
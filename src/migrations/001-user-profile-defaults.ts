@@ -0,0 +1,16 @@
+import { Migration } from '.';
+
+// Профили, созданные ранними версиями бота, без обязательных полей UserProfile.
+// Сброс подписки раньше записывал subscriptionExpiryDate: null вместо удаления поля.
+const userProfileDefaults: Migration = {
+  version: 1,
+  name: 'user-profile-defaults',
+  async up(db) {
+    const users = db.collection('users');
+    await users.updateMany({ subscription: { $exists: false } }, { $set: { subscription: 'free' } });
+    await users.updateMany({ lastResetDate: { $exists: false } }, { $set: { lastResetDate: new Date() } });
+    await users.updateMany({ subscriptionExpiryDate: { $type: 'null' } }, { $unset: { subscriptionExpiryDate: '' } });
+  },
+};
+
+export { userProfileDefaults };
@@ -0,0 +1,18 @@
+import { Migration } from '.';
+
+// До учета токенов и кредитов дневной расход хранился в dailyRequests.
+// Переносим его в dailyUsage, чтобы текущее окно лимита не обнулилось.
+const legacyDailyRequests: Migration = {
+  version: 2,
+  name: 'legacy-daily-requests',
+  async up(db) {
+    const users = db.collection('users');
+    await users.updateMany(
+      { dailyRequests: { $exists: true }, dailyUsage: { $exists: false } },
+      [{ $set: { dailyUsage: { requests: '$dailyRequests', tokens: 0, credits: 0 } } }]
+    );
+    await users.updateMany({ dailyRequests: { $exists: true } }, { $unset: { dailyRequests: '' } });
+  },
+};
+
+export { legacyDailyRequests };
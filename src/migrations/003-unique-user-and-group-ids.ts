@@ -0,0 +1,30 @@
+import { Db, ObjectId } from 'mongodb';
+
+import { Migration } from '.';
+
+// Оставляем самый ранний документ для каждого значения поля: его же возвращал findOne
+async function removeDuplicates(db: Db, collection: string, field: string) {
+  const duplicates = await db.collection(collection).aggregate<{ ids: ObjectId[] }>([
+    { $sort: { _id: 1 } },
+    { $group: { _id: `$${field}`, ids: { $push: '$_id' }, count: { $sum: 1 } } },
+    { $match: { count: { $gt: 1 } } },
+  ]).toArray();
+
+  for (const { ids } of duplicates) {
+    await db.collection(collection).deleteMany({ _id: { $in: ids.slice(1) } });
+  }
+}
+
+// Параллельные первые запросы могли создать два профиля одного пользователя или две записи настроек группы
+const uniqueUserAndGroupIds: Migration = {
+  version: 3,
+  name: 'unique-user-and-group-ids',
+  async up(db) {
+    await removeDuplicates(db, 'users', 'userId');
+    await db.collection('users').createIndex({ userId: 1 }, { unique: true });
+    await removeDuplicates(db, 'group_settings', 'chatId');
+    await db.collection('group_settings').createIndex({ chatId: 1 }, { unique: true });
+  },
+};
+
+export { uniqueUserAndGroupIds };
@@ -0,0 +1,47 @@
+import { connectToMongo, closeMongo } from '../db';
+import { getMigrationStatus, runMigrations } from '.';
+
+const USAGE = 'Usage: yarn migrate [status | up [version]]';
+
+async function printStatus() {
+  for (const { migration, record } of await getMigrationStatus()) {
+    const state = !record
+      ? 'pending'
+      : record.appliedAt ? `applied ${record.appliedAt.toISOString()}` : 'interrupted';
+    console.log(`${String(migration.version).padStart(3, '0')} ${migration.name}: ${state}`);
+  }
+}
+
+async function migrateUp(target?: string) {
+  const targetVersion = target === undefined ? Infinity : parseInt(target, 10);
+  if (Number.isNaN(targetVersion)) {
+    throw new Error(USAGE);
+  }
+  const applied = await runMigrations(targetVersion);
+  if (applied.length === 0) {
+    console.log('No pending migrations');
+  }
+  for (const { version, name } of applied) {
+    console.log(`Applied ${String(version).padStart(3, '0')} ${name}`);
+  }
+}
+
+async function main([command = 'up', ...args]: string[]) {
+  await connectToMongo();
+  try {
+    if (command === 'status') {
+      await printStatus();
+    } else if (command === 'up') {
+      await migrateUp(args[0]);
+    } else {
+      throw new Error(USAGE);
+    }
+  } finally {
+    await closeMongo();
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,94 @@
+import { Db, MongoServerError, ObjectId } from 'mongodb';
+
+import { db } from '../db';
+import { userProfileDefaults } from './001-user-profile-defaults';
+import { legacyDailyRequests } from './002-legacy-daily-requests';
+import { uniqueUserAndGroupIds } from './003-unique-user-and-group-ids';
+
+// Миграции выполняются по порядку версий и только вперед. Если миграция прервалась,
+// ее запись остается без appliedAt, поэтому изменения должны быть безопасны при повторном запуске.
+interface Migration {
+  version: number;
+  name: string;
+  up(db: Db): Promise<void>;
+}
+
+interface MigrationRecord {
+  _id?: ObjectId;
+  version: number;
+  name: string;
+  startedAt: Date;
+  appliedAt?: Date;
+}
+
+interface MigrationStatus {
+  migration: Migration;
+  record?: MigrationRecord;
+}
+
+// Новые миграции добавляются в конец списка со следующим номером версии
+const MIGRATIONS: Migration[] = [
+  userProfileDefaults,
+  legacyDailyRequests,
+  uniqueUserAndGroupIds,
+];
+
+const migrationRecords = () => db.collection<MigrationRecord>('migrations');
+
+async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const records = await migrationRecords().find().toArray();
+  return MIGRATIONS.map(migration => ({
+    migration,
+    record: records.find(record => record.version === migration.version),
+  }));
+}
+
+// Применяет еще не выполненные миграции до targetVersion включительно и возвращает примененные
+async function runMigrations(targetVersion = Infinity): Promise<Migration[]> {
+  // Уникальная версия не даст двум процессам выполнить одну миграцию одновременно
+  await migrationRecords().createIndex({ version: 1 }, { unique: true });
+
+  const statuses = await getMigrationStatus();
+  const interrupted = statuses.find(({ record }) => record && !record.appliedAt);
+  if (interrupted) {
+    const { version, name } = interrupted.migration;
+    throw new Error(
+      `Migration ${version} (${name}) did not finish. ` +
+      'Check the data and delete its record from the migrations collection to run it again.'
+    );
+  }
+
+  const pending = statuses
+    .filter(({ migration, record }) => !record && migration.version <= targetVersion)
+    .map(({ migration }) => migration);
+
+  for (const migration of pending) {
+    const { version, name } = migration;
+    try {
+      await migrationRecords().insertOne({ version, name, startedAt: new Date() });
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) {
+        throw new Error(`Migration ${version} (${name}) is already being applied by another process.`);
+      }
+      throw error;
+    }
+
+    try {
+      await migration.up(db);
+    } catch (error) {
+      // Упавшую миграцию можно запустить снова после исправления
+      await migrationRecords().deleteOne({ version });
+      throw new Error(`Migration ${version} (${name}) failed`, { cause: error });
+    }
+    await migrationRecords().updateOne({ version }, { $set: { appliedAt: new Date() } });
+  }
+  return pending;
+}
+
+export {
+  Migration,
+  MigrationStatus,
+  MIGRATIONS,
+  getMigrationStatus,
+  runMigrations,
+};
@@ -0,0 +1,178 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+type SubscriptionTier = 'free' | 'premium';
+
+interface ModelConfig {
+  key: string; // Короткий идентификатор для callback-кнопок и профиля
+  id: string; // Идентификатор модели в OpenRouter
+  name: string;
+  tiers: SubscriptionTier[]; // Каким тарифам доступна модель
+  requestCost: number; // Сколько запросов списывается из дневного лимита
+  vision: boolean; // Поддерживает ли модель изображения
+  maxTokens: number;
+  historyTokenBudget: number;
+}
+
+const DEFAULT_MODEL_CATALOGUE: ModelConfig[] = [
+  {
+    key: 'gpt-4o-mini',
+    id: 'gpt-4o-mini',
+    name: 'GPT-4o mini',
+    tiers: ['free', 'premium'],
+    requestCost: 1,
+    vision: true,
+    maxTokens: 4000,
+    historyTokenBudget: 8000,
+  },
+  {
+    key: 'llama-70b',
+    id: 'meta-llama/llama-3.1-70b-instruct',
+    name: 'Llama 3.1 70B',
+    tiers: ['free', 'premium'],
+    requestCost: 1,
+    vision: false,
+    maxTokens: 4000,
+    historyTokenBudget: 8000,
+  },
+  {
+    key: 'gpt-4o',
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    tiers: ['premium'],
+    requestCost: 1,
+    vision: true,
+    maxTokens: 4000,
+    historyTokenBudget: 16000,
+  },
+  {
+    key: 'claude-sonnet',
+    id: 'anthropic/claude-3.5-sonnet',
+    name: 'Claude 3.5 Sonnet',
+    tiers: ['premium'],
+    requestCost: 2,
+    vision: true,
+    maxTokens: 4000,
+    historyTokenBudget: 16000,
+  },
+  {
+    key: 'o1-mini',
+    id: 'openai/o1-mini',
+    name: 'o1-mini',
+    tiers: ['premium'],
+    requestCost: 3,
+    vision: false,
+    maxTokens: 4000,
+    historyTokenBudget: 16000,
+  },
+];
+
+interface ModelPrice {
+  input: number; // USD за 1M входных токенов
+  output: number; // USD за 1M выходных токенов
+}
+
+// Цены OpenRouter по идентификатору модели, включая служебную модель для конспектов и названий
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'meta-llama/llama-3.1-70b-instruct': { input: 0.12, output: 0.3 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'anthropic/claude-3.5-sonnet': { input: 3, output: 15 },
+  'openai/o1-mini': { input: 3, output: 12 },
+};
+
+// Для моделей без цены считаем по дорогой модели, чтобы не занижать расход
+const FALLBACK_MODEL_PRICE: ModelPrice = { input: 3, output: 15 };
+
+// Модели по умолчанию для каждого тарифа
+const DEFAULT_MODELS: Record<SubscriptionTier, string> = {
+  free: 'gpt-4o-mini',
+  premium: 'gpt-4o',
+};
+
+// Ограничение длины ответа по тарифу, независимо от возможностей модели
+const TIER_MAX_TOKENS: Record<SubscriptionTier, number> = {
+  free: 2000,
+  premium: 4000,
+};
+
+// Каталог можно переопределить JSON-массивом в переменной окружения MODEL_CATALOGUE
+function loadModelCatalogue(): ModelConfig[] {
+  const raw = process.env.MODEL_CATALOGUE;
+  if (!raw) return DEFAULT_MODEL_CATALOGUE;
+
+  const catalogue = JSON.parse(raw) as ModelConfig[];
+  if (!Array.isArray(catalogue) || catalogue.length === 0) {
+    throw new Error('MODEL_CATALOGUE must be a non-empty JSON array.');
+  }
+  for (const model of catalogue) {
+    if (!model.key || !model.id || !Array.isArray(model.tiers) || !(model.requestCost > 0)) {
+      throw new Error(`Invalid MODEL_CATALOGUE entry: ${JSON.stringify(model)}`);
+    }
+  }
+  return catalogue;
+}
+
+const MODEL_CATALOGUE = loadModelCatalogue();
+
+// Цены можно дополнить или переопределить JSON-объектом в переменной окружения MODEL_PRICES
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  ...DEFAULT_MODEL_PRICES,
+  ...(process.env.MODEL_PRICES ? JSON.parse(process.env.MODEL_PRICES) as Record<string, ModelPrice> : {}),
+};
+
+// Стоимость запроса в USD
+function calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
+  const price = MODEL_PRICES[modelId] ?? FALLBACK_MODEL_PRICE;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+function getModelByKey(key: string): ModelConfig | undefined {
+  return MODEL_CATALOGUE.find(model => model.key === key);
+}
+
+function getAvailableModels(tier: SubscriptionTier): ModelConfig[] {
+  return MODEL_CATALOGUE.filter(model => model.tiers.includes(tier));
+}
+
+function getDefaultModel(tier: SubscriptionTier): ModelConfig {
+  return getModelByKey(DEFAULT_MODELS[tier]) || getAvailableModels(tier)[0];
+}
+
+// Модель пользователя, если она доступна на его тарифе, иначе модель тарифа по умолчанию
+function resolveModel(tier: SubscriptionTier, selectedModel?: string): ModelConfig {
+  const model = selectedModel ? getModelByKey(selectedModel) : undefined;
+  if (model && model.tiers.includes(tier)) {
+    return model;
+  }
+  return getDefaultModel(tier);
+}
+
+// Модель с поддержкой изображений: выбранная, если умеет, иначе первая подходящая на тарифе
+function resolveVisionModel(tier: SubscriptionTier, selectedModel?: string): ModelConfig | undefined {
+  const model = resolveModel(tier, selectedModel);
+  if (model.vision) return model;
+
+  const defaultModel = getDefaultModel(tier);
+  if (defaultModel.vision) return defaultModel;
+
+  return getAvailableModels(tier).find(item => item.vision);
+}
+
+function getMaxTokens(model: ModelConfig, tier: SubscriptionTier): number {
+  return Math.min(model.maxTokens, TIER_MAX_TOKENS[tier]);
+}
+
+export {
+  SubscriptionTier,
+  ModelConfig,
+  ModelPrice,
+  MODEL_CATALOGUE,
+  calculateCost,
+  getModelByKey,
+  getAvailableModels,
+  resolveModel,
+  resolveVisionModel,
+  getMaxTokens,
+};
@@ -0,0 +1,89 @@
+import { MessageKey } from '../i18n';
+
+interface Persona {
+  key: string;
+  nameKey: MessageKey;
+  systemPrompt: string;
+  temperature: number;
+}
+
+const CUSTOM_PERSONA_KEY = 'custom';
+const CUSTOM_PERSONA_TEMPERATURE = 0.7;
+const MAX_CUSTOM_PROMPT_LENGTH = 2000;
+
+const PERSONAS: Persona[] = [
+  {
+    key: 'assistant',
+    nameKey: 'persona.assistant',
+    systemPrompt: 'You are a helpful assistant in a Telegram chat. ' +
+      'Answer in the language of the user unless asked otherwise.',
+    temperature: 0.7,
+  },
+  {
+    key: 'translator',
+    nameKey: 'persona.translator',
+    systemPrompt: 'You are a professional translator. Translate every user message: ' +
+      'Russian text into English, any other language into Russian. ' +
+      'Preserve meaning, tone and formatting. Reply with the translation only.',
+    temperature: 0.2,
+  },
+  {
+    key: 'code_reviewer',
+    nameKey: 'persona.code_reviewer',
+    systemPrompt: 'You are a senior software engineer doing code review. Point out bugs, ' +
+      'security issues, performance problems and readability concerns, ordered by severity. ' +
+      'Suggest concrete fixes with code snippets. Answer in the language of the user.',
+    temperature: 0.3,
+  },
+  {
+    key: 'tutor',
+    nameKey: 'persona.tutor',
+    systemPrompt: 'You are a patient tutor. Explain step by step, check understanding with short ' +
+      'questions, give examples and do not just hand out final answers to homework. ' +
+      'Answer in the language of the user.',
+    temperature: 0.5,
+  },
+  {
+    key: 'editor',
+    nameKey: 'persona.editor',
+    systemPrompt: 'You are a literary editor. Improve the text sent by the user: fix grammar, ' +
+      'style and structure while keeping the author\'s voice. Return the edited text first, ' +
+      'then a short list of the main changes.',
+    temperature: 0.4,
+  },
+  {
+    key: 'creative',
+    nameKey: 'persona.creative',
+    systemPrompt: 'You are a creative writer and brainstorming partner. Offer bold, original ' +
+      'ideas and vivid wording. Answer in the language of the user.',
+    temperature: 1.0,
+  },
+];
+
+const DEFAULT_PERSONA_KEY = 'assistant';
+
+function getPersonaByKey(key: string): Persona | undefined {
+  return PERSONAS.find(persona => persona.key === key);
+}
+
+// Персона пользователя: свой промпт, пресет или пресет по умолчанию
+function resolvePersona(personaKey?: string, customSystemPrompt?: string): Persona {
+  if (personaKey === CUSTOM_PERSONA_KEY && customSystemPrompt) {
+    return {
+      key: CUSTOM_PERSONA_KEY,
+      nameKey: 'persona.custom',
+      systemPrompt: customSystemPrompt,
+      temperature: CUSTOM_PERSONA_TEMPERATURE,
+    };
+  }
+  return (personaKey && getPersonaByKey(personaKey)) || getPersonaByKey(DEFAULT_PERSONA_KEY)!;
+}
+
+export {
+  Persona,
+  PERSONAS,
+  CUSTOM_PERSONA_KEY,
+  MAX_CUSTOM_PROMPT_LENGTH,
+  getPersonaByKey,
+  resolvePersona,
+};
@@ -0,0 +1,71 @@
+import { MessageKey } from '../i18n';
+
+interface SubscriptionPlan {
+  id: string;
+  titleKey: MessageKey;
+  days: number;
+  price: number; // В звездах Telegram (XTR)
+  recurring?: boolean; // Подписка Telegram Stars с автопродлением
+}
+
+// Разовый пакет запросов: пополняет баланс, который расходуется после дневного лимита и не сгорает
+interface RequestPack {
+  id: string;
+  requests: number;
+  price: number; // В звездах Telegram (XTR)
+}
+
+// Telegram поддерживает для подписок в звездах только период 30 дней
+const STAR_SUBSCRIPTION_PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+const SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
+  { id: 'week', titleKey: 'plan.week', days: 7, price: 50 },
+  { id: 'month', titleKey: 'plan.month', days: 30, price: 150 },
+  { id: 'quarter', titleKey: 'plan.quarter', days: 90, price: 400 },
+  { id: 'year', titleKey: 'plan.year', days: 365, price: 1400 },
+  { id: 'monthly', titleKey: 'plan.monthly', days: 30, price: 150, recurring: true },
+];
+
+const REQUEST_PACKS: RequestPack[] = [
+  { id: 'requests_50', requests: 50, price: 25 },
+  { id: 'requests_200', requests: 200, price: 90 },
+  { id: 'requests_500', requests: 500, price: 200 },
+];
+
+function getPlanById(id: string): SubscriptionPlan | undefined {
+  return SUBSCRIPTION_PLANS.find(plan => plan.id === id);
+}
+
+function getRequestPackById(id: string): RequestPack | undefined {
+  return REQUEST_PACKS.find(pack => pack.id === id);
+}
+
+function getMinPlanPrice(): number {
+  return Math.min(...SUBSCRIPTION_PLANS.map(plan => plan.price));
+}
+
+// Новая дата окончания: продление считается от текущей даты окончания, если она еще не прошла
+function extendExpiryDate(currentExpiry: Date | undefined, days: number, now = new Date()): Date {
+  const base = currentExpiry && currentExpiry > now ? currentExpiry : now;
+  const expiryDate = new Date(base);
+  expiryDate.setDate(expiryDate.getDate() + days);
+  return expiryDate;
+}
+
+// Цена со скидкой по промокоду, не меньше одной звезды
+function applyDiscount(price: number, percent: number): number {
+  return Math.max(1, Math.round(price * (100 - percent) / 100));
+}
+
+export {
+  SubscriptionPlan,
+  RequestPack,
+  SUBSCRIPTION_PLANS,
+  REQUEST_PACKS,
+  STAR_SUBSCRIPTION_PERIOD_SECONDS,
+  getPlanById,
+  getRequestPackById,
+  getMinPlanPrice,
+  extendExpiryDate,
+  applyDiscount,
+};
@@ -0,0 +1,373 @@
+import { Composer, Context, Markup } from 'telegraf';
+
+import { SUBSCRIPTION_PLANS, getMinPlanPrice } from '../plans';
+import {
+  ModelConfig,
+  MODEL_CATALOGUE,
+  getModelByKey,
+  resolveModel,
+} from '../models';
+import {
+  getTierQuota,
+  getMonthStart,
+  formatQuotaAmount,
+  describeQuota,
+} from '../quotas';
+import { PERSONAS, CUSTOM_PERSONA_KEY, MAX_CUSTOM_PROMPT_LENGTH } from '../personas';
+import {
+  I18n,
+  LOCALES,
+  LOCALE_NAMES,
+  Translate,
+  isLocale,
+  parseTimeZone,
+  formatTimeZone,
+  createI18n,
+} from '../i18n';
+import { isGroupChat } from '../groups';
+import { UserProfile, getUserI18n, getUserProfile, users } from '../users';
+import { getI18n } from '../context';
+import {
+  DAILY_WINDOW_MS,
+  PREMIUM_DAILY_IMAGE_LIMIT,
+  formatUsageTotals,
+  getUsageTotals,
+  refreshQuotaWindows,
+  getQuotaUsage,
+  setUserTimeZone,
+} from '../usage';
+import { privateOnly } from '../middleware';
+import { getUserPersona } from '../chat/generation';
+import { GIFT_CODE_PREFIX, redeemPromoCode } from '../billing/promo';
+import {
+  REFERRAL_CODE_PREFIX,
+  ensureReferralCode,
+  buildReferralLink,
+  registerReferral,
+} from '../billing/referrals';
+
+const profileComposer = new Composer<Context>();
+
+function buildProfileKeyboard(t: Translate, user: UserProfile) {
+  const voiceReplies = user.subscription === 'premium' && user.voiceReplies;
+  const label = user.subscription === 'premium'
+    ? t('profile.voiceReplies', { state: t(voiceReplies ? 'common.on' : 'common.off') })
+    : t('profile.voiceRepliesLocked');
+  return Markup.inlineKeyboard([Markup.button.callback(label, 'toggle_voice_replies')]);
+}
+
+function formatModelLabel(model: ModelConfig): string {
+  return model.name +
+    (model.vision ? ' 🖼' : '') +
+    (model.requestCost > 1 ? ` ×${model.requestCost}` : '');
+}
+
+// Клавиатура выбора модели: модели чужого тарифа показываем с замком
+function buildModelsKeyboard(user: UserProfile) {
+  const current = resolveModel(user.subscription, user.selectedModel);
+  return Markup.inlineKeyboard(
+    MODEL_CATALOGUE.map(model => {
+      const available = model.tiers.includes(user.subscription);
+      const prefix = model.key === current.key ? '✅ ' : available ? '' : '🔒 ';
+      return [Markup.button.callback(prefix + formatModelLabel(model), `set_model:${model.key}`)];
+    })
+  );
+}
+
+function buildPersonasKeyboard(t: Translate, user: UserProfile) {
+  const current = getUserPersona(user);
+  const rows = PERSONAS.map(persona => [
+    Markup.button.callback((persona.key === current.key ? '✅ ' : '') + t(persona.nameKey), `set_persona:${persona.key}`)
+  ]);
+  if (user.customSystemPrompt) {
+    const prefix = current.key === CUSTOM_PERSONA_KEY ? '✅ ' : user.subscription === 'premium' ? '' : '🔒 ';
+    rows.push([Markup.button.callback(prefix + t('persona.custom'), `set_persona:${CUSTOM_PERSONA_KEY}`)]);
+  }
+  return Markup.inlineKeyboard(rows);
+}
+
+profileComposer.command('start', async (ctx) => {
+  const username = ctx.from.username;
+  const isNewUser = !(await users().findOne({ userId: ctx.from.id }));
+  const user = await getUserProfile(ctx.from.id, username);
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+
+  // Диплинк t.me/<bot>?start=ref_<code>
+  if (isNewUser && ctx.payload.startsWith(REFERRAL_CODE_PREFIX)) {
+    const registered = await registerReferral(user, ctx.payload.slice(REFERRAL_CODE_PREFIX.length));
+    if (registered) {
+      await ctx.reply(t('referral.welcome'));
+    }
+  }
+  // Ссылка на подарок t.me/<bot>?start=gift_<code>
+  if (ctx.payload.startsWith(GIFT_CODE_PREFIX)) {
+    await ctx.reply(`🎁 ${await redeemPromoCode(user, ctx.payload.slice(GIFT_CODE_PREFIX.length), i18n)}`);
+  }
+
+  const welcomeMessage = t('start.welcome', {
+    freeQuota: describeQuota(i18n, getTierQuota('free')),
+    premiumQuota: describeQuota(i18n, getTierQuota('premium')),
+    imageLimit: PREMIUM_DAILY_IMAGE_LIMIT,
+    minPrice: getMinPlanPrice(),
+    plans: SUBSCRIPTION_PLANS.filter(plan => !plan.recurring).map(plan => t(plan.titleKey)).join(', '),
+  });
+
+  const keyboard = Markup.keyboard([
+    [Markup.button.text('/profile'), Markup.button.text('/pay')],
+    [Markup.button.text('/reset'), Markup.button.text('/help')]
+  ]).resize();
+
+  ctx.reply(welcomeMessage, keyboard);
+});
+
+profileComposer.command('profile', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  const username = ctx.from.username;
+  const user = await getUserProfile(userId, username);
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+  await refreshQuotaWindows(user);
+  const nextReset = new Date(user.lastResetDate.getTime() + DAILY_WINDOW_MS);
+  const { quota, daily, monthly } = getQuotaUsage(user);
+  const [dailyUsage, monthlyUsage] = await Promise.all([
+    getUsageTotals({ userId }, user.lastResetDate),
+    getUsageTotals({ userId }, getMonthStart(user.timezone)),
+  ]);
+  const formatRemaining = (used: number, limit?: number) => limit === undefined
+    ? t('quota.unlimited')
+    : t('profile.remaining', {
+      remaining: formatQuotaAmount(i18n, quota.unit, Math.max(0, limit - used)),
+      limit: formatQuotaAmount(i18n, quota.unit, limit),
+    });
+  
+  let subscriptionInfo = t('profile.subscription', { tier: t(`tier.${user.subscription}`) });
+  if (user.subscription === 'premium') {
+    subscriptionInfo += user.subscriptionExpiryDate
+      ? '\n' + t('profile.validUntil', { date: i18n.formatDate(user.subscriptionExpiryDate) })
+      : '';
+    subscriptionInfo += '\n' + t(user.autoRenew ? 'profile.autoRenewOn' : 'profile.extend');
+  } else {
+    subscriptionInfo += '\n' + t('profile.buyPremium');
+  }
+
+  const limits = [t('profile.limitToday', { value: formatRemaining(daily, quota.daily) })];
+  if (quota.monthly !== undefined) {
+    limits.push(t('profile.limitMonth', { value: formatRemaining(monthly, quota.monthly) }));
+  }
+  if (user.subscription === 'premium') {
+    limits.push(t('profile.limitImages', {
+      remaining: PREMIUM_DAILY_IMAGE_LIMIT - (user.dailyImages ?? 0),
+      limit: PREMIUM_DAILY_IMAGE_LIMIT,
+    }));
+  }
+  limits.push(t('profile.limitBalance', { balance: user.bonusRequests ?? 0 }));
+
+  const profileMessage = t('profile.text', {
+    userId,
+    username: user.username || t('profile.usernameMissing'),
+    subscription: subscriptionInfo,
+    model: resolveModel(user.subscription, user.selectedModel).name,
+    persona: t(getUserPersona(user).nameKey),
+    language: LOCALE_NAMES[i18n.locale],
+    timeZone: formatTimeZone(i18n.timeZone),
+    limits: limits.join('\n'),
+    nextReset: i18n.formatDate(nextReset, {
+      weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit',
+    }) + ` (${formatTimeZone(i18n.timeZone)})`,
+    usageToday: formatUsageTotals(i18n, dailyUsage),
+    usageMonth: formatUsageTotals(i18n, monthlyUsage),
+  });
+  
+  const referralLink = buildReferralLink(ctx.botInfo.username, await ensureReferralCode(user));
+  ctx.reply(`${profileMessage}\n\n${t('profile.referralLink', { link: referralLink })}`, buildProfileKeyboard(t, user));
+});
+
+profileComposer.command('model', privateOnly, async (ctx) => {
+  const user = await getUserProfile(ctx.from.id, ctx.from.username);
+  await ctx.reply(
+    getI18n(ctx).t('model.choose'),
+    buildModelsKeyboard(user)
+  );
+});
+
+profileComposer.command('persona', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  const user = await getUserProfile(userId, ctx.from.username);
+  const i18n = getI18n(ctx);
+  const { t } = i18n;
+  const [subcommand, ...rest] = ctx.message.text.split(' ').slice(1);
+
+  if (subcommand === CUSTOM_PERSONA_KEY) {
+    if (user.subscription !== 'premium') {
+      await ctx.reply(
+        t('persona.customPremiumOnly'),
+        Markup.inlineKeyboard([Markup.button.callback(t('common.buyPremium'), 'buy_premium')])
+      );
+      return;
+    }
+
+    const customPrompt = rest.join(' ').trim();
+    if (!customPrompt) {
+      await ctx.reply(t('persona.customUsage'));
+      return;
+    }
+    if (customPrompt.length > MAX_CUSTOM_PROMPT_LENGTH) {
+      await ctx.reply(t('persona.customTooLong', { limit: i18n.formatCount('unit.characters', MAX_CUSTOM_PROMPT_LENGTH) }));
+      return;
+    }
+
+    await users().updateOne(
+      { userId },
+      { $set: { persona: CUSTOM_PERSONA_KEY, customSystemPrompt: customPrompt } }
+    );
+    await ctx.reply(t('persona.customSaved'));
+    return;
+  }
+
+  await ctx.reply(
+    t('persona.choose', { persona: t(getUserPersona(user).nameKey) }),
+    buildPersonasKeyboard(t, user)
+  );
+});
+
+profileComposer.command('language', privateOnly, async (ctx) => {
+  const { t } = getI18n(ctx);
+  await ctx.reply(
+    t('language.choose'),
+    Markup.inlineKeyboard([
+      ...LOCALES.map(locale => [Markup.button.callback(LOCALE_NAMES[locale], `set_language:${locale}`)]),
+      [Markup.button.callback(t('language.auto'), 'set_language:auto')]
+    ])
+  );
+});
+
+profileComposer.command('timezone', privateOnly, async (ctx) => {
+  const userId = ctx.from.id;
+  const argument = ctx.message.text.split(' ').slice(1).join(' ').trim();
+  const formatTime = (i18n: I18n) => i18n.formatDate(new Date(), { hour: '2-digit', minute: '2-digit' });
+
+  if (!argument) {
+    const i18n = getI18n(ctx);
+    await ctx.reply(i18n.t('timezone.current', { timeZone: formatTimeZone(i18n.timeZone), time: formatTime(i18n) }));
+    return;
+  }
+
+  const timezone = parseTimeZone(argument);
+  if (!timezone) {
+    await ctx.reply(getI18n(ctx).t('timezone.invalid'));
+    return;
+  }
+
+  await setUserTimeZone(await getUserProfile(userId, ctx.from.username), timezone);
+  const i18n = createI18n(getI18n(ctx).locale, timezone);
+  ctx.state.i18n = i18n;
+  await ctx.reply(i18n.t('timezone.changed', { timeZone: formatTimeZone(timezone), time: formatTime(i18n) }));
+});
+
+profileComposer.command('help', (ctx) => {
+  const helpMessage = getI18n(ctx).t('help.text', { bot: ctx.botInfo.username });
+  if (isGroupChat(ctx.chat)) {
+    return ctx.reply(helpMessage);
+  }
+
+  const keyboard = Markup.keyboard([
+    [Markup.button.text('/profile'), Markup.button.text('/pay')],
+    [Markup.button.text('/cancel_subscription'), Markup.button.text('/reset')],
+    [Markup.button.text('/help')]
+  ]).resize();
+
+  ctx.reply(helpMessage, keyboard);
+});
+
+profileComposer.action('toggle_voice_replies', async (ctx) => {
+  const userId = ctx.from!.id;
+  const user = await getUserProfile(userId);
+  const { t } = getI18n(ctx);
+
+  if (user.subscription !== 'premium') {
+    await ctx.answerCbQuery();
+    await ctx.reply(
+      t('voice.premiumOnly'),
+      Markup.inlineKeyboard([Markup.button.callback(t('common.buyPremium'), 'buy_premium')])
+    );
+    return;
+  }
+
+  user.voiceReplies = !user.voiceReplies;
+  await users().updateOne({ userId }, { $set: { voiceReplies: user.voiceReplies } });
+  await ctx.answerCbQuery(t(user.voiceReplies ? 'voice.repliesOn' : 'voice.repliesOff'));
+  await ctx.editMessageReplyMarkup(buildProfileKeyboard(t, user).reply_markup);
+});
+
+profileComposer.action(/^set_model:(.+)$/, async (ctx) => {
+  const userId = ctx.from!.id;
+  const user = await getUserProfile(userId);
+  const model = getModelByKey(ctx.match[1]);
+  const { t } = getI18n(ctx);
+
+  if (!model) {
+    await ctx.answerCbQuery(t('model.notFound'));
+    return;
+  }
+
+  if (!model.tiers.includes(user.subscription)) {
+    await ctx.answerCbQuery();
+    await ctx.reply(
+      t('model.premiumOnly', { model: model.name }),
+      Markup.inlineKeyboard([Markup.button.callback(t('common.buyPremium'), 'buy_premium')])
+    );
+    return;
+  }
+
+  await users().updateOne({ userId }, { $set: { selectedModel: model.key } });
+  user.selectedModel = model.key;
+  await ctx.answerCbQuery(t('model.selected', { model: model.name }));
+  await ctx.editMessageReplyMarkup(buildModelsKeyboard(user).reply_markup);
+});
+
+profileComposer.action(/^set_persona:(.+)$/, async (ctx) => {
+  const userId = ctx.from!.id;
+  const user = await getUserProfile(userId);
+  const personaKey = ctx.match[1];
+  const { t } = getI18n(ctx);
+
+  if (personaKey === CUSTOM_PERSONA_KEY && (user.subscription !== 'premium' || !user.customSystemPrompt)) {
+    await ctx.answerCbQuery(t('persona.customAlert'), { show_alert: true });
+    return;
+  }
+  if (personaKey !== CUSTOM_PERSONA_KEY && !PERSONAS.some(persona => persona.key === personaKey)) {
+    await ctx.answerCbQuery(t('persona.notFound'));
+    return;
+  }
+
+  await users().updateOne({ userId }, { $set: { persona: personaKey } });
+  user.persona = personaKey;
+  await ctx.answerCbQuery(t('persona.selected', { persona: t(getUserPersona(user).nameKey) }));
+  await ctx.editMessageReplyMarkup(buildPersonasKeyboard(t, user).reply_markup);
+});
+
+// «Авто» убирает явный выбор: язык снова берется из настроек Telegram
+profileComposer.action(/^set_language:(ru|en|auto)$/, async (ctx) => {
+  const userId = ctx.from!.id;
+  const language = ctx.match[1];
+  const user = await users().findOneAndUpdate(
+    { userId },
+    isLocale(language) ? { $set: { language } } : { $unset: { language: '' } },
+    { returnDocument: 'after' }
+  );
+  if (!user) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  // Отвечаем уже на новом языке
+  ctx.state.i18n = getUserI18n(user);
+  const { t, locale } = getI18n(ctx);
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(t('language.changed', { language: LOCALE_NAMES[locale] }));
+});
+
+export {
+  profileComposer,
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+
+import { getMonthStart } from '.';
+
+describe('getMonthStart', () => {
+  it('uses Moscow time by default', () => {
+    expect(getMonthStart(undefined, new Date('2024-03-15T12:00:00Z'))).toEqual(new Date('2024-02-29T21:00:00Z'));
+  });
+
+  it('starts the month at midnight in the user time zone', () => {
+    expect(getMonthStart('America/New_York', new Date('2024-03-15T12:00:00Z'))).toEqual(new Date('2024-03-01T05:00:00Z'));
+    expect(getMonthStart('Etc/GMT-5', new Date('2024-01-31T20:00:00Z'))).toEqual(new Date('2024-01-31T19:00:00Z'));
+  });
+
+  it('accounts for a daylight saving change since the start of the month', () => {
+    expect(getMonthStart('America/New_York', new Date('2024-04-10T12:00:00Z'))).toEqual(new Date('2024-04-01T04:00:00Z'));
+    expect(getMonthStart('Europe/Berlin', new Date('2024-03-31T23:30:00Z'))).toEqual(new Date('2024-03-31T22:00:00Z'));
+    expect(getMonthStart('Europe/Berlin', new Date('2024-03-30T12:00:00Z'))).toEqual(new Date('2024-02-29T23:00:00Z'));
+  });
+});
@@ -0,0 +1,123 @@
+import * as dotenv from 'dotenv';
+
+import { SubscriptionTier } from '../models';
+import { I18n, DEFAULT_TIME_ZONE } from '../i18n';
+
+dotenv.config();
+
+// В чем считается лимит тарифа: запросы (с учетом стоимости модели), токены или кредиты
+type QuotaUnit = 'requests' | 'tokens' | 'credits';
+
+interface TierQuota {
+  unit: QuotaUnit;
+  daily?: number; // Без ограничения, если не задано
+  monthly?: number;
+}
+
+// Из чего оплачен запрос: дневной/месячный лимит тарифа или купленный баланс запросов
+type QuotaBilling = 'allowance' | 'balance';
+
+// Счетчики расхода за окно лимита, сразу во всех единицах
+type QuotaCounters = Record<QuotaUnit, number>;
+
+interface UsageAmounts {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  credits: number;
+}
+
+// Один кредит — $0.001 фактической стоимости запроса по таблице цен
+const CREDIT_PRICE_USD = 0.001;
+
+const DEFAULT_QUOTAS: Record<SubscriptionTier, TierQuota> = {
+  free: { unit: 'requests', daily: 10 },
+  premium: { unit: 'requests', daily: 100 },
+};
+
+const QUOTA_UNITS: QuotaUnit[] = ['requests', 'tokens', 'credits'];
+
+// Лимиты можно переопределить JSON-объектом в переменной окружения QUOTAS,
+// например {"free":{"unit":"credits","daily":20,"monthly":300}}
+function loadQuotas(): Record<SubscriptionTier, TierQuota> {
+  const raw = process.env.QUOTAS;
+  if (!raw) return DEFAULT_QUOTAS;
+
+  const quotas = { ...DEFAULT_QUOTAS, ...JSON.parse(raw) } as Record<SubscriptionTier, TierQuota>;
+  for (const [tier, quota] of Object.entries(quotas)) {
+    const validLimit = (limit?: number) => limit === undefined || limit > 0;
+    if (!QUOTA_UNITS.includes(quota.unit) || !validLimit(quota.daily) || !validLimit(quota.monthly)) {
+      throw new Error(`Invalid QUOTAS entry for ${tier}: ${JSON.stringify(quota)}`);
+    }
+  }
+  return quotas;
+}
+
+const QUOTAS = loadQuotas();
+
+function getTierQuota(tier: SubscriptionTier): TierQuota {
+  return QUOTAS[tier];
+}
+
+function costToCredits(costUsd: number): number {
+  return costUsd / CREDIT_PRICE_USD;
+}
+
+function emptyQuotaCounters(): QuotaCounters {
+  return { requests: 0, tokens: 0, credits: 0 };
+}
+
+// Смещение часового пояса от UTC в момент date, в миллисекундах
+function getTimeZoneOffset(timeZone: string, date: Date): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return local - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Начало текущего календарного месяца в часовом поясе пользователя (по умолчанию — московском)
+function getMonthStart(timeZone = DEFAULT_TIME_ZONE, now = new Date()): Date {
+  const local = new Date(now.getTime() + getTimeZoneOffset(timeZone, now));
+  const localMonthStart = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), 1);
+  // В начале месяца смещение может быть другим, если между ними переход на летнее время
+  const approximate = new Date(localMonthStart - getTimeZoneOffset(timeZone, now));
+  return new Date(localMonthStart - getTimeZoneOffset(timeZone, approximate));
+}
+
+function formatQuotaAmount(i18n: I18n, unit: QuotaUnit, value: number): string {
+  return unit === 'credits'
+    ? i18n.formatCount('unit.credits', Math.round(value * 10) / 10, 1)
+    : i18n.formatCount(unit === 'tokens' ? 'unit.tokens' : 'unit.requests', Math.round(value));
+}
+
+function describeQuota(i18n: I18n, quota: TierQuota): string {
+  const parts = [
+    quota.daily !== undefined && i18n.t('quota.perDay', { amount: formatQuotaAmount(i18n, quota.unit, quota.daily) }),
+    quota.monthly !== undefined && i18n.t('quota.perMonth', { amount: formatQuotaAmount(i18n, quota.unit, quota.monthly) }),
+  ].filter(Boolean);
+  return parts.length ? parts.join(i18n.t('quota.and')) : i18n.t('quota.unlimited');
+}
+
+export {
+  QuotaUnit,
+  TierQuota,
+  QuotaBilling,
+  QuotaCounters,
+  UsageAmounts,
+  getTierQuota,
+  costToCredits,
+  emptyQuotaCounters,
+  getMonthStart,
+  formatQuotaAmount,
+  describeQuota,
+};
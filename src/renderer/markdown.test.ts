@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import { markdownToTelegramHtml, splitMarkdown } from './markdown';
+
+describe('markdownToTelegramHtml', () => {
+  it('converts inline formatting', () => {
+    expect(markdownToTelegramHtml('**bold**, *italic*, ~~gone~~ and `a < b`'))
+      .toBe('<b>bold</b>, <i>italic</i>, <s>gone</s> and <code>a &lt; b</code>');
+  });
+
+  it('escapes HTML in plain text', () => {
+    expect(markdownToTelegramHtml('<script> & "quotes"')).toBe('&lt;script&gt; &amp; "quotes"');
+  });
+
+  it('converts headings, bullets and links', () => {
+    expect(markdownToTelegramHtml('## Title\n- item\n[site](https://example.com)'))
+      .toBe('<b>Title</b>\n• item\n<a href="https://example.com">site</a>');
+  });
+
+  it('leaves links with other schemes as text', () => {
+    expect(markdownToTelegramHtml('[x](javascript:alert)')).toBe('[x](javascript:alert)');
+  });
+
+  it('does not treat snake_case and arithmetic as italics', () => {
+    expect(markdownToTelegramHtml('snake_case_name and 2 * 3 * 4')).toBe('snake_case_name and 2 * 3 * 4');
+  });
+
+  it('closes tags left open mid-stream', () => {
+    expect(markdownToTelegramHtml('**bold and *italic')).toBe('<b>bold and <i>italic</i></b>');
+    expect(markdownToTelegramHtml('`unfinished code')).toBe('<code>unfinished code</code>');
+  });
+
+  it('keeps nesting valid when tags close out of order', () => {
+    expect(markdownToTelegramHtml('**bold *both** italic*')).toBe('<b>bold <i>both</i></b><i> italic</i>');
+  });
+
+  it('renders fenced code blocks with the language', () => {
+    expect(markdownToTelegramHtml('Code:\n```ts\nconst a = 1 < 2;\n```\nDone'))
+      .toBe('Code:\n<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>\nDone');
+  });
+
+  it('closes a code block left open mid-stream', () => {
+    expect(markdownToTelegramHtml('```python\nprint(1)')).toBe('<pre><code class="language-python">print(1)</code></pre>');
+  });
+});
+
+describe('splitMarkdown', () => {
+  it('cuts at the last line break within the limit', () => {
+    const text = `${'a'.repeat(60)}\n${'b'.repeat(30)}\n${'c'.repeat(30)}`;
+
+    const { head, tail } = splitMarkdown(text, 100);
+
+    expect(head).toBe(`${'a'.repeat(60)}\n${'b'.repeat(30)}`);
+    expect(tail).toBe('c'.repeat(30));
+  });
+
+  it('falls back to a space and then to a hard cut', () => {
+    expect(splitMarkdown(`${'a'.repeat(70)} ${'b'.repeat(50)}`, 100)).toEqual({ head: 'a'.repeat(70), tail: 'b'.repeat(50) });
+    expect(splitMarkdown('a'.repeat(150), 100)).toEqual({ head: 'a'.repeat(100), tail: 'a'.repeat(50) });
+  });
+
+  it('reopens a code block that the cut goes through', () => {
+    const code = Array.from({ length: 20 }, (_, index) => `line${index}`).join('\n');
+    const text = `Intro\n\`\`\`js\n${code}\n\`\`\``;
+
+    const { head, tail } = splitMarkdown(text, 80);
+
+    expect(head.length).toBeLessThanOrEqual(80);
+    expect(tail.startsWith('```js\n')).toBe(true);
+    // Обе части по отдельности дают законченный блок кода
+    expect(markdownToTelegramHtml(head)).toMatch(/<pre><code class="language-js">[\s\S]*<\/code><\/pre>$/);
+    expect(markdownToTelegramHtml(tail)).toMatch(/^<pre><code class="language-js">[\s\S]*<\/code><\/pre>$/);
+  });
+
+  it('does not reopen a code block closed before the cut', () => {
+    const text = `\`\`\`\ncode\n\`\`\`\n${'word '.repeat(40)}`;
+
+    expect(splitMarkdown(text, 100).tail.startsWith('```')).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+type InlineTag = 'b' | 'i' | 's';
+
+const FENCE_REGEX = /^[ \t]*```\s*([\w+#-]*)/;
+const HEADING_REGEX = /^#{1,6}[ \t]+/;
+const BULLET_REGEX = /^([ \t]*)[-*+][ \t]+/;
+const LINK_REGEX = /^\[([^\]\n]+)\]\(([^)\s]+)\)/;
+const WORD_CHAR_REGEX = /[\p{L}\p{N}]/u;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeAttribute = (text: string) => escapeHtml(text).replace(/"/g, '&quot;');
+
+// Преобразуем строчную разметку. Незакрытые теги закрываются в конце,
+// поэтому результат всегда валиден — даже для текста, оборванного посреди потока.
+function renderInline(text: string): string {
+  const stack: InlineTag[] = [];
+  let html = '';
+  let lineStart = true;
+  let heading = false;
+
+  const toggle = (tag: InlineTag) => {
+    const index = stack.lastIndexOf(tag);
+    if (index === -1) {
+      stack.push(tag);
+      html += `<${tag}>`;
+      return;
+    }
+    // Закрываем вложенные теги, затем открываем их заново, чтобы сохранить правильную вложенность
+    const closed = stack.splice(index);
+    html += [...closed].reverse().map(item => `</${item}>`).join('');
+    for (const item of closed.slice(1)) {
+      stack.push(item);
+      html += `<${item}>`;
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (lineStart) {
+      lineStart = false;
+      const line = text.slice(i, text.indexOf('\n', i) === -1 ? undefined : text.indexOf('\n', i));
+      const headingMatch = HEADING_REGEX.exec(line);
+      if (headingMatch) {
+        toggle('b');
+        heading = true;
+        i += headingMatch[0].length;
+        continue;
+      }
+      const bulletMatch = BULLET_REGEX.exec(line);
+      if (bulletMatch) {
+        html += `${bulletMatch[1]}• `;
+        i += bulletMatch[0].length;
+        continue;
+      }
+    }
+
+    if (char === '\n') {
+      if (heading && stack.includes('b')) {
+        toggle('b');
+      }
+      heading = false;
+      html += '\n';
+      lineStart = true;
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      const code = end === -1 ? text.slice(i + 1) : text.slice(i + 1, end);
+      html += `<code>${escapeHtml(code)}</code>`;
+      i = end === -1 ? text.length : end + 1;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = LINK_REGEX.exec(text.slice(i, i + 2048));
+      if (link && /^(https?:\/\/|tg:\/\/|mailto:)/.test(link[2])) {
+        html += `<a href="${escapeAttribute(link[2])}">${escapeHtml(link[1])}</a>`;
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (text.startsWith('**', i) || text.startsWith('__', i)) {
+      toggle('b');
+      i += 2;
+      continue;
+    }
+
+    if (text.startsWith('~~', i)) {
+      toggle('s');
+      i += 2;
+      continue;
+    }
+
+    if (char === '*' || char === '_') {
+      const prev = text[i - 1] ?? ' ';
+      const next = text[i + 1] ?? ' ';
+      const italicOpen = stack.includes('i');
+      // Не считаем разметкой snake_case, «2 * 3» и одиночные звездочки
+      const opening = !italicOpen && /\S/.test(next) && !WORD_CHAR_REGEX.test(prev);
+      const closing = italicOpen && /\S/.test(prev) && !WORD_CHAR_REGEX.test(next);
+      if (opening || closing) {
+        toggle('i');
+        i++;
+        continue;
+      }
+    }
+
+    html += escapeHtml(char);
+    i++;
+  }
+
+  return html + stack.reverse().map(tag => `</${tag}>`).join('');
+}
+
+// Markdown модели -> HTML, который принимает Telegram (parse_mode: 'HTML')
+function markdownToTelegramHtml(markdown: string): string {
+  const blocks: string[] = [];
+  let textLines: string[] = [];
+  let codeLines: string[] | null = null;
+  let codeLanguage = '';
+
+  const pushCode = () => {
+    const languageClass = codeLanguage ? ` class="language-${escapeAttribute(codeLanguage)}"` : '';
+    blocks.push(`<pre><code${languageClass}>${escapeHtml(codeLines!.join('\n'))}</code></pre>`);
+    codeLines = null;
+  };
+
+  for (const line of markdown.split('\n')) {
+    const fence = FENCE_REGEX.exec(line);
+
+    if (codeLines) {
+      if (fence && !fence[1]) {
+        pushCode();
+      } else {
+        codeLines.push(line);
+      }
+      continue;
+    }
+
+    if (fence) {
+      if (textLines.length) {
+        blocks.push(renderInline(textLines.join('\n')));
+        textLines = [];
+      }
+      codeLines = [];
+      codeLanguage = fence[1];
+      continue;
+    }
+
+    textLines.push(line);
+  }
+
+  if (codeLines) {
+    // Блок кода еще не закрыт (ответ продолжает генерироваться) — закрываем его сами
+    pushCode();
+  } else if (textLines.length) {
+    blocks.push(renderInline(textLines.join('\n')));
+  }
+
+  return blocks.join('\n');
+}
+
+// Язык незакрытого блока кода в конце текста или null, если все блоки закрыты
+function getOpenFence(markdown: string): string | null {
+  let openLanguage: string | null = null;
+  for (const line of markdown.split('\n')) {
+    const fence = FENCE_REGEX.exec(line);
+    if (!fence) continue;
+    if (openLanguage === null) {
+      openLanguage = fence[1];
+    } else if (!fence[1]) {
+      openLanguage = null;
+    }
+  }
+  return openLanguage;
+}
+
+// Делим текст на часть, помещающуюся в сообщение, и остаток.
+// Если разрез приходится на блок кода, остаток начинается с открывающего ```.
+function splitMarkdown(markdown: string, limit: number): { head: string, tail: string } {
+  let cut = markdown.lastIndexOf('\n', limit);
+  if (cut < limit / 2) {
+    cut = markdown.lastIndexOf(' ', limit);
+  }
+  if (cut < limit / 2) {
+    cut = limit;
+  }
+
+  const head = markdown.slice(0, cut);
+  let tail = markdown.slice(cut).replace(/^[ \n]/, '');
+  const openFence = getOpenFence(head);
+  if (openFence !== null) {
+    tail = '```' + openFence + '\n' + tail;
+  }
+  return { head, tail };
+}
+
+export { markdownToTelegramHtml, splitMarkdown, escapeHtml };
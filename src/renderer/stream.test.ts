@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Telegram, TelegramError } from 'telegraf';
+import { InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
+
+import { createStreamRenderer } from './stream';
+
+const CHAT_ID = 1;
+const STOP: InlineKeyboardMarkup = { inline_keyboard: [[{ text: 'Stop', callback_data: 'stop' }]] };
+const DONE: InlineKeyboardMarkup = { inline_keyboard: [[{ text: 'Regenerate', callback_data: 'regenerate' }]] };
+
+const telegramError = (error_code: number, description: string, retry_after?: number) =>
+  new TelegramError({ error_code, description, parameters: retry_after === undefined ? undefined : { retry_after } });
+
+function createTelegram() {
+  let nextMessageId = 1;
+  const telegram = {
+    sendMessage: vi.fn(async () => ({ message_id: nextMessageId++ })),
+    editMessageText: vi.fn(async () => true),
+  };
+  return { telegram, renderer: createStreamRenderer(telegram as unknown as Telegram, CHAT_ID, { streamingMarkup: STOP }) };
+}
+
+describe('createStreamRenderer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the answer as HTML with the final buttons', async () => {
+    const { telegram, renderer } = createTelegram();
+
+    await renderer.append('**Hello**');
+    await renderer.finish(DONE);
+
+    expect(telegram.sendMessage).toHaveBeenCalledOnce();
+    expect(telegram.sendMessage).toHaveBeenCalledWith(CHAT_ID, '<b>Hello</b>', { parse_mode: 'HTML', reply_markup: DONE });
+    expect(renderer.text).toBe('**Hello**');
+  });
+
+  it('edits the message no more than once a second while streaming', async () => {
+    const { telegram, renderer } = createTelegram();
+
+    await renderer.append('a'.repeat(150));
+    expect(telegram.sendMessage).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    await renderer.append(' **bold');
+    // Незакрытый тег закрыт, чтобы Telegram принял промежуточный текст
+    expect(telegram.sendMessage).toHaveBeenCalledWith(
+      CHAT_ID, `${'a'.repeat(150)} <b>bold</b>`, { parse_mode: 'HTML', reply_markup: STOP }
+    );
+
+    await renderer.append(' text**');
+    expect(telegram.editMessageText).not.toHaveBeenCalled();
+
+    await renderer.finish(DONE);
+    expect(telegram.editMessageText).toHaveBeenCalledWith(
+      CHAT_ID, 1, undefined, `${'a'.repeat(150)} <b>bold text</b>`, { parse_mode: 'HTML', reply_markup: DONE }
+    );
+  });
+
+  it('ignores "message is not modified"', async () => {
+    const { telegram, renderer } = createTelegram();
+    telegram.editMessageText.mockRejectedValueOnce(telegramError(400, 'Bad Request: message is not modified'));
+
+    await renderer.append('Answer');
+    await renderer.finish(STOP);
+    await expect(renderer.finish(DONE)).resolves.toBeUndefined();
+
+    expect(telegram.editMessageText).toHaveBeenCalledOnce();
+  });
+
+  it('falls back to plain text when Telegram rejects the HTML', async () => {
+    const { telegram, renderer } = createTelegram();
+    telegram.sendMessage.mockRejectedValueOnce(telegramError(400, "Bad Request: can't parse entities"));
+
+    await renderer.append('**Answer**');
+    await renderer.finish();
+
+    expect(telegram.sendMessage).toHaveBeenLastCalledWith(
+      CHAT_ID, '**Answer**', { parse_mode: undefined, reply_markup: undefined }
+    );
+  });
+
+  it('retries after the pause given in retry_after', async () => {
+    const { telegram, renderer } = createTelegram();
+    telegram.sendMessage.mockRejectedValueOnce(telegramError(429, 'Too Many Requests: retry after 2', 2));
+
+    await renderer.append('Answer');
+    const finished = renderer.finish();
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(telegram.sendMessage).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await finished;
+    expect(telegram.sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after repeated flood errors', async () => {
+    const { telegram, renderer } = createTelegram();
+    telegram.sendMessage.mockRejectedValue(telegramError(429, 'Too Many Requests: retry after 1', 1));
+
+    await renderer.append('Answer');
+    const finished = expect(renderer.finish()).rejects.toThrow('Too Many Requests');
+    await vi.advanceTimersByTimeAsync(3000);
+    await finished;
+
+    expect(telegram.sendMessage).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry other errors', async () => {
+    const { telegram, renderer } = createTelegram();
+    telegram.sendMessage.mockRejectedValueOnce(telegramError(403, 'Forbidden: bot was blocked by the user'));
+
+    await renderer.append('Answer');
+
+    await expect(renderer.finish()).rejects.toThrow('bot was blocked');
+    expect(telegram.sendMessage).toHaveBeenCalledOnce();
+  });
+
+  it('continues a long answer in a new message and keeps the buttons on the last one', async () => {
+    const { telegram, renderer } = createTelegram();
+    const code = Array.from({ length: 400 }, (_, index) => `console.log(${index});`).join('\n');
+
+    await renderer.append(`Code:\n\`\`\`js\n${code}\n\`\`\``);
+    await renderer.finish(DONE);
+
+    const calls = telegram.sendMessage.mock.calls as unknown as [number, string, { reply_markup?: InlineKeyboardMarkup }][];
+    expect(calls.length).toBeGreaterThan(1);
+    for (const [, text] of calls) {
+      expect(text.length).toBeLessThanOrEqual(4096);
+    }
+    // Блок кода закрыт в первом сообщении и открыт заново в следующем
+    expect(calls[0][1]).toMatch(/<\/code><\/pre>$/);
+    expect(calls[1][1]).toMatch(/^<pre><code class="language-js">/);
+    expect(calls.slice(0, -1).every(([, , extra]) => extra.reply_markup === undefined)).toBe(true);
+    expect(calls[calls.length - 1][2].reply_markup).toBe(STOP);
+    expect(telegram.editMessageText).toHaveBeenLastCalledWith(
+      CHAT_ID, calls.length, undefined, expect.any(String), { parse_mode: 'HTML', reply_markup: DONE }
+    );
+  });
+});
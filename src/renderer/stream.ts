@@ -0,0 +1,146 @@
+import { Telegram, TelegramError } from 'telegraf';
+import { ExtraReplyMessage } from 'telegraf/typings/telegram-types';
+import { InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
+import createDebug from 'debug';
+
+import { markdownToTelegramHtml, splitMarkdown } from './markdown';
+
+const debug = createDebug('bot:stream_renderer');
+
+const MAX_MESSAGE_LENGTH = 4000; // Лимит Telegram — 4096 символов, оставляем запас
+const MIN_EDIT_INTERVAL_MS = 1000;
+const MAX_EDIT_INTERVAL_MS = 3000;
+const MIN_EDIT_CHARS = 100;
+const MAX_FLOOD_RETRIES = 3;
+
+interface StreamRendererOptions {
+  extra?: ExtraReplyMessage; // Параметры первого сообщения (reply_parameters, message_thread_id и т.д.)
+  streamingMarkup?: InlineKeyboardMarkup; // Кнопки на сообщении, пока идет генерация
+}
+
+interface StreamRenderer {
+  readonly text: string;
+  append(chunk: string): Promise<void>;
+  finish(finalMarkup?: InlineKeyboardMarkup): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isNotModifiedError = (error: unknown) =>
+  error instanceof TelegramError && error.description.includes('message is not modified');
+
+const isParseError = (error: unknown) =>
+  error instanceof TelegramError && error.description.includes("can't parse entities");
+
+// Повторяем запрос после паузы, которую Telegram указывает в ответе 429
+async function withFloodRetry<T>(request: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const retryAfter = error instanceof TelegramError && error.code === 429
+        ? error.parameters?.retry_after
+        : undefined;
+      if (retryAfter === undefined || attempt >= MAX_FLOOD_RETRIES) {
+        throw error;
+      }
+      debug(`Flood wait: retrying in ${retryAfter}s`);
+      await sleep(retryAfter * 1000);
+    }
+  }
+}
+
+// Выводит ответ модели по мере генерации: редактирует сообщение не чаще раза в секунду,
+// при превышении лимита длины продолжает в новом сообщении и форматирует Markdown в HTML
+const createStreamRenderer = (
+  telegram: Telegram,
+  chatId: number,
+  options: StreamRendererOptions = {},
+): StreamRenderer => {
+  const { extra = {}, streamingMarkup } = options;
+  let fullText = '';
+  let messageText = '';
+  let renderedText = '';
+  let renderedMarkup: InlineKeyboardMarkup | undefined;
+  let messageId: number | undefined;
+  let lastRenderAt = Date.now();
+
+  const render = async (markup: InlineKeyboardMarkup | undefined) => {
+    if (!messageText.trim() || (messageText === renderedText && markup === renderedMarkup)) return;
+
+    const send = async (text: string, parseMode?: 'HTML') => {
+      if (messageId === undefined) {
+        const message = await withFloodRetry(() =>
+          telegram.sendMessage(chatId, text, { ...extra, parse_mode: parseMode, reply_markup: markup })
+        );
+        messageId = message.message_id;
+      } else {
+        const id = messageId;
+        await withFloodRetry(() =>
+          telegram.editMessageText(chatId, id, undefined, text, { parse_mode: parseMode, reply_markup: markup })
+        );
+      }
+    };
+
+    try {
+      await send(markdownToTelegramHtml(messageText), 'HTML');
+    } catch (error) {
+      if (isParseError(error)) {
+        // Если Telegram не принял разметку, показываем текст как есть
+        debug('HTML rejected, falling back to plain text');
+        await send(messageText).catch(fallbackError => {
+          if (!isNotModifiedError(fallbackError)) throw fallbackError;
+        });
+      } else if (!isNotModifiedError(error)) {
+        throw error;
+      }
+    }
+
+    renderedText = messageText;
+    renderedMarkup = markup;
+    lastRenderAt = Date.now();
+  };
+
+  const flush = async (markup: InlineKeyboardMarkup | undefined) => {
+    while (messageText.length > MAX_MESSAGE_LENGTH) {
+      const { head, tail } = splitMarkdown(messageText, MAX_MESSAGE_LENGTH);
+      messageText = head;
+      // Кнопки остаются только на последнем сообщении
+      await render(undefined);
+      // Остаток продолжаем в новом сообщении
+      messageId = undefined;
+      messageText = tail;
+      renderedText = '';
+      renderedMarkup = undefined;
+    }
+    await render(markup);
+  };
+
+  return {
+    get text() {
+      return fullText;
+    },
+
+    async append(chunk: string) {
+      fullText += chunk;
+      messageText += chunk;
+
+      const elapsed = Date.now() - lastRenderAt;
+      const pendingChars = messageText.length - renderedText.length;
+      const shouldRender = messageText.length > MAX_MESSAGE_LENGTH || (
+        elapsed >= MIN_EDIT_INTERVAL_MS &&
+        (pendingChars >= MIN_EDIT_CHARS || elapsed >= MAX_EDIT_INTERVAL_MS)
+      );
+
+      if (shouldRender) {
+        await flush(streamingMarkup);
+      }
+    },
+
+    async finish(finalMarkup?: InlineKeyboardMarkup) {
+      await flush(finalMarkup);
+    },
+  };
+};
+
+export { StreamRenderer, StreamRendererOptions, createStreamRenderer };
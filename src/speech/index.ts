@@ -0,0 +1,72 @@
+import OpenAI, { toFile } from 'openai';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+const SPEECH_PROVIDER = process.env.SPEECH_PROVIDER || 'openai';
+const TRANSCRIPTION_MODEL = process.env.TRANSCRIPTION_MODEL || 'whisper-1';
+const TTS_MODEL = process.env.TTS_MODEL || 'tts-1';
+const TTS_VOICE = 'alloy';
+const MAX_TTS_CHARS = 4000;
+
+interface SpeechToText {
+  transcribe(audio: Buffer, fileName: string): Promise<string>;
+}
+
+interface TextToSpeech {
+  // Возвращает аудио в формате OGG/Opus, который Telegram принимает как голосовое сообщение.
+  // Пустой буфер означает, что озвучка недоступна.
+  synthesize(text: string): Promise<Buffer>;
+}
+
+const createSpeechClient = () => new OpenAI({
+  apiKey: process.env.SPEECH_API_KEY || process.env.OPENROUTER_API_KEY,
+  baseURL: process.env.SPEECH_BASE_URL || undefined,
+});
+
+// Распознавание и озвучка через OpenAI-совместимый API (Whisper и TTS)
+const openAISpeechToText = (client: OpenAI): SpeechToText => ({
+  async transcribe(audio, fileName) {
+    const transcription = await client.audio.transcriptions.create({
+      file: await toFile(audio, fileName),
+      model: TRANSCRIPTION_MODEL,
+    });
+    return transcription.text.trim();
+  },
+});
+
+const openAITextToSpeech = (client: OpenAI): TextToSpeech => ({
+  async synthesize(text) {
+    const response = await client.audio.speech.create({
+      model: TTS_MODEL,
+      voice: TTS_VOICE,
+      input: text.slice(0, MAX_TTS_CHARS),
+      response_format: 'opus',
+    });
+    return Buffer.from(await response.arrayBuffer());
+  },
+});
+
+// Локальные заглушки без сети — для разработки и тестов.
+// Расшифровка берется из SPEECH_STUB_TRANSCRIPT; без нее голосовое считается нераспознанным.
+const localSpeechToText: SpeechToText = {
+  async transcribe() {
+    return process.env.SPEECH_STUB_TRANSCRIPT ?? '';
+  },
+};
+
+const localTextToSpeech: TextToSpeech = {
+  async synthesize() {
+    return Buffer.alloc(0);
+  },
+};
+
+function createSpeechToText(): SpeechToText {
+  return SPEECH_PROVIDER === 'local' ? localSpeechToText : openAISpeechToText(createSpeechClient());
+}
+
+function createTextToSpeech(): TextToSpeech {
+  return SPEECH_PROVIDER === 'local' ? localTextToSpeech : openAITextToSpeech(createSpeechClient());
+}
+
+export { SpeechToText, TextToSpeech, createSpeechToText, createTextToSpeech };
@@ -0,0 +1,8 @@
+import { Telegram } from 'telegraf';
+
+import { BOT_TOKEN } from '../config';
+
+// Клиент Bot API для сообщений вне обработки обновлений: плановых задач, уведомлений и рассылок
+const telegram = new Telegram(BOT_TOKEN);
+
+export { telegram };
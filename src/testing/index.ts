@@ -0,0 +1,243 @@
+import { ObjectId } from 'mongodb';
+
+// База в памяти для тестов: подменяет db из src/db через vi.mock и поддерживает те операции
+// драйвера MongoDB, которыми пользуется бот. Агрегации и конвейерные обновления не поддерживаются.
+
+type TestDocument = { _id: ObjectId, [field: string]: unknown };
+type Query = Record<string, unknown>;
+type SortSpec = Record<string, 1 | -1>;
+
+function getPath(document: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    document
+  );
+}
+
+function setPath(document: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.');
+  let target = document;
+  for (const key of keys.slice(0, -1)) {
+    if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+    target = target[key] as Record<string, unknown>;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function unsetPath(document: Record<string, unknown>, path: string) {
+  const keys = path.split('.');
+  const parent = getPath(document, keys.slice(0, -1).join('.')) ?? (keys.length === 1 ? document : undefined);
+  if (parent && typeof parent === 'object') {
+    delete (parent as Record<string, unknown>)[keys[keys.length - 1]];
+  }
+}
+
+// Копия документа, как после чтения из базы: ObjectId и Date остаются экземплярами своих классов
+function clone<T>(value: T): T {
+  if (value instanceof ObjectId) return value;
+  if (value instanceof Date) return new Date(value) as T;
+  if (Array.isArray(value)) return value.map(item => clone(item)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value;
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof ObjectId) return value.toHexString();
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
+
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(actual) && !Array.isArray(expected)) {
+    return actual.some(item => isEqual(item, expected));
+  }
+  return comparable(actual) === comparable(expected) || (actual === undefined && expected === null);
+}
+
+const isOperatorObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !(value instanceof ObjectId) && !(value instanceof Date) &&
+  !Array.isArray(value) && Object.keys(value).some(key => key.startsWith('$'));
+
+function matchesCondition(actual: unknown, condition: unknown): boolean {
+  if (!isOperatorObject(condition)) return isEqual(actual, condition);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    const [a, b] = [comparable(actual) as number, comparable(operand) as number];
+    switch (operator) {
+      case '$in': return (operand as unknown[]).some(value => isEqual(actual, value));
+      case '$nin': return !(operand as unknown[]).some(value => isEqual(actual, value));
+      case '$ne': return !isEqual(actual, operand);
+      case '$exists': return (actual !== undefined) === operand;
+      case '$gt': return actual !== undefined && actual !== null && a > b;
+      case '$gte': return actual !== undefined && actual !== null && a >= b;
+      case '$lt': return actual !== undefined && actual !== null && a < b;
+      case '$lte': return actual !== undefined && actual !== null && a <= b;
+      case '$not': return !matchesCondition(actual, operand);
+      default: throw new Error(`Unsupported query operator ${operator}`);
+    }
+  });
+}
+
+function matches(document: TestDocument, query: Query): boolean {
+  return Object.entries(query).every(([field, condition]) => {
+    if (field === '$or') return (condition as Query[]).some(item => matches(document, item));
+    if (field === '$and') return (condition as Query[]).every(item => matches(document, item));
+    return matchesCondition(getPath(document, field), condition);
+  });
+}
+
+function applyUpdate(document: TestDocument, update: Record<string, Record<string, unknown>>) {
+  if (Array.isArray(update)) {
+    throw new Error('Pipeline updates are not supported');
+  }
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields)) {
+      switch (operator) {
+        case '$set': setPath(document, path, clone(value)); break;
+        case '$unset': unsetPath(document, path); break;
+        case '$inc': setPath(document, path, ((getPath(document, path) as number) ?? 0) + (value as number)); break;
+        default: throw new Error(`Unsupported update operator ${operator}`);
+      }
+    }
+  }
+}
+
+function sortDocuments(documents: TestDocument[], sort?: SortSpec): TestDocument[] {
+  if (!sort) return documents;
+  const entries = Object.entries(sort);
+  return [...documents].sort((x, y) => {
+    for (const [field, direction] of entries) {
+      const [a, b] = [comparable(getPath(x, field)) as number, comparable(getPath(y, field)) as number];
+      if (a < b) return -direction;
+      if (a > b) return direction;
+    }
+    return 0;
+  });
+}
+
+// Проекцию не применяем: документы возвращаются целиком
+function createCollection() {
+  let documents: TestDocument[] = [];
+
+  const find = (query: Query = {}, options: { sort?: SortSpec, limit?: number } = {}) => {
+    let sort = options.sort;
+    let limit = options.limit;
+    const results = () => {
+      const found = sortDocuments(documents.filter(document => matches(document, query)), sort);
+      return (limit ? found.slice(0, limit) : found).map(document => clone(document));
+    };
+    const cursor = {
+      sort(value: SortSpec) {
+        sort = value;
+        return cursor;
+      },
+      limit(value: number) {
+        limit = value;
+        return cursor;
+      },
+      toArray: async () => results(),
+      next: async () => results()[0] ?? null,
+      async *[Symbol.asyncIterator]() {
+        yield* results();
+      },
+    };
+    return cursor;
+  };
+
+  const findOne = async (query: Query = {}, options: { sort?: SortSpec } = {}) =>
+    (await find(query, { sort: options.sort, limit: 1 }).next());
+
+  const updateOne = async (query: Query, update: Record<string, Record<string, unknown>>, options: { upsert?: boolean } = {}) => {
+    const document = documents.find(item => matches(item, query));
+    if (document) {
+      const before = JSON.stringify(document);
+      applyUpdate(document, update);
+      return { matchedCount: 1, modifiedCount: JSON.stringify(document) === before ? 0 : 1, upsertedId: null };
+    }
+    if (!options.upsert) {
+      return { matchedCount: 0, modifiedCount: 0, upsertedId: null };
+    }
+    const created: TestDocument = { _id: new ObjectId() };
+    for (const [field, value] of Object.entries(query)) {
+      if (!field.startsWith('$') && !isOperatorObject(value)) setPath(created, field, value);
+    }
+    applyUpdate(created, update);
+    documents.push(created);
+    return { matchedCount: 0, modifiedCount: 0, upsertedId: created._id };
+  };
+
+  return {
+    get documents() {
+      return documents;
+    },
+    clear() {
+      documents = [];
+    },
+    find,
+    findOne,
+    countDocuments: async (query: Query = {}, options: { limit?: number } = {}) => {
+      const count = documents.filter(document => matches(document, query)).length;
+      return options.limit ? Math.min(count, options.limit) : count;
+    },
+    insertOne: async (document: Record<string, unknown>) => {
+      const insertedId = (document._id as ObjectId | undefined) ?? new ObjectId();
+      documents.push(clone({ ...document, _id: insertedId }));
+      return { insertedId };
+    },
+    insertMany: async (items: Record<string, unknown>[]) => {
+      documents.push(...items.map(item => clone({ ...item, _id: new ObjectId() })));
+      return { insertedCount: items.length };
+    },
+    updateOne,
+    updateMany: async (query: Query, update: Record<string, Record<string, unknown>>) => {
+      const found = documents.filter(document => matches(document, query));
+      found.forEach(document => applyUpdate(document, update));
+      return { matchedCount: found.length, modifiedCount: found.length };
+    },
+    findOneAndUpdate: async (
+      query: Query,
+      update: Record<string, Record<string, unknown>>,
+      options: { returnDocument?: 'before' | 'after' } = {}
+    ) => {
+      const document = documents.find(item => matches(item, query));
+      if (!document) return null;
+      const before = clone(document);
+      applyUpdate(document, update);
+      return options.returnDocument === 'after' ? clone(document) : before;
+    },
+    deleteOne: async (query: Query) => {
+      const index = documents.findIndex(document => matches(document, query));
+      if (index >= 0) documents.splice(index, 1);
+      return { deletedCount: index >= 0 ? 1 : 0 };
+    },
+    deleteMany: async (query: Query = {}) => {
+      const before = documents.length;
+      documents = documents.filter(document => !matches(document, query));
+      return { deletedCount: before - documents.length };
+    },
+    createIndex: async () => 'index',
+  };
+}
+
+type MemoryCollection = ReturnType<typeof createCollection>;
+
+function createMemoryDb() {
+  const collections = new Map<string, MemoryCollection>();
+  return {
+    collection(name: string): MemoryCollection {
+      if (!collections.has(name)) collections.set(name, createCollection());
+      return collections.get(name)!;
+    },
+    // Очищаем все коллекции между тестами
+    reset() {
+      collections.forEach(collection => collection.clear());
+    },
+  };
+}
+
+// Общий экземпляр: vi.mock('../db', () => import('../testing').then(({ memoryDb }) => ({ db: memoryDb })))
+const memoryDb = createMemoryDb();
+
+export { MemoryCollection, createMemoryDb, memoryDb };
@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Context } from 'telegraf';
+
+import { memoryDb } from '../testing';
+
+vi.mock('../db', () => import('../testing').then(({ memoryDb }) => ({ db: memoryDb })));
+
+import { getModelByKey } from '../models';
+import { emptyQuotaCounters, getMonthStart } from '../quotas';
+import { createI18n } from '../i18n';
+import { UserProfile, users } from '../users';
+import { QuotaCharge, consumeQuota, runGeneration } from '.';
+
+const USER_ID = 1;
+// Бесплатный тариф: 10 запросов в дневном окне
+const DAILY_LIMIT = 10;
+const MINI = getModelByKey('gpt-4o-mini')!; // Стоит 1 запрос
+const SONNET = getModelByKey('claude-sonnet')!; // Стоит 2 запроса
+
+async function createUser(fields: Partial<UserProfile> = {}) {
+  await users().insertOne({
+    userId: USER_ID,
+    subscription: 'free',
+    lastResetDate: new Date(),
+    usageMonthStart: getMonthStart(),
+    dailyUsage: emptyQuotaCounters(),
+    monthlyUsage: emptyQuotaCounters(),
+    ...fields,
+  });
+}
+
+async function getUser() {
+  return (await users().findOne({ userId: USER_ID }))!;
+}
+
+const usedRequests = (requests: number) => ({ ...emptyQuotaCounters(), requests });
+
+function createContext() {
+  return {
+    from: { id: USER_ID, language_code: 'en' },
+    state: {},
+    reply: vi.fn(async () => undefined),
+  } as unknown as Context & { reply: ReturnType<typeof vi.fn> };
+}
+
+describe('consumeQuota', () => {
+  beforeEach(() => {
+    memoryDb.reset();
+  });
+
+  it('charges the model cost from the daily and monthly allowance', async () => {
+    await createUser();
+
+    expect(await consumeQuota(USER_ID, SONNET)).toEqual({ userId: USER_ID, billing: 'allowance', requests: 2 });
+
+    const user = await getUser();
+    expect(user.dailyUsage?.requests).toBe(2);
+    expect(user.monthlyUsage?.requests).toBe(2);
+  });
+
+  it('refuses a request that would go past the limit', async () => {
+    await createUser({ dailyUsage: usedRequests(DAILY_LIMIT - 1) });
+
+    expect(await consumeQuota(USER_ID, SONNET)).toBeNull();
+    expect((await getUser()).dailyUsage?.requests).toBe(DAILY_LIMIT - 1);
+
+    // Дешевая модель в остаток еще помещается
+    expect(await consumeQuota(USER_ID, MINI)).toMatchObject({ billing: 'allowance' });
+    expect(await consumeQuota(USER_ID, MINI)).toBeNull();
+    expect((await getUser()).dailyUsage?.requests).toBe(DAILY_LIMIT);
+  });
+
+  it('does not let parallel requests go past the limit', async () => {
+    await createUser();
+
+    const charges = await Promise.all(Array.from({ length: DAILY_LIMIT + 2 }, () => consumeQuota(USER_ID, MINI)));
+
+    expect(charges.filter(Boolean)).toHaveLength(DAILY_LIMIT);
+    expect((await getUser()).dailyUsage?.requests).toBe(DAILY_LIMIT);
+  });
+
+  it('uses the allowance before the bought balance', async () => {
+    await createUser({ dailyUsage: usedRequests(DAILY_LIMIT - 1), bonusRequests: 5 });
+
+    expect(await consumeQuota(USER_ID, MINI)).toMatchObject({ billing: 'allowance' });
+    expect((await getUser()).bonusRequests).toBe(5);
+
+    expect(await consumeQuota(USER_ID, SONNET)).toEqual({ userId: USER_ID, billing: 'balance', requests: 2 });
+    const user = await getUser();
+    expect(user.bonusRequests).toBe(3);
+    expect(user.dailyUsage?.requests).toBe(DAILY_LIMIT);
+  });
+
+  it('refuses when the balance is smaller than the model cost', async () => {
+    await createUser({ dailyUsage: usedRequests(DAILY_LIMIT), bonusRequests: 1 });
+
+    expect(await consumeQuota(USER_ID, SONNET)).toBeNull();
+    expect((await getUser()).bonusRequests).toBe(1);
+  });
+
+  it('starts a new daily window after 24 hours', async () => {
+    await createUser({
+      dailyUsage: usedRequests(DAILY_LIMIT),
+      lastResetDate: new Date(Date.now() - 25 * 60 * 60 * 1000),
+    });
+
+    expect(await consumeQuota(USER_ID, MINI)).toMatchObject({ billing: 'allowance' });
+    expect((await getUser()).dailyUsage?.requests).toBe(1);
+  });
+});
+
+describe('runGeneration', () => {
+  beforeEach(() => {
+    memoryDb.reset();
+  });
+
+  it('runs the task with the charge and releases the lock', async () => {
+    await createUser();
+    const ctx = createContext();
+    const task = vi.fn(async (charge: QuotaCharge) => {
+      expect((await getUser()).generationLockUntil).toBeInstanceOf(Date);
+      charge.settled = true;
+    });
+
+    await runGeneration(ctx, USER_ID, MINI, vi.fn(), task);
+
+    expect(task).toHaveBeenCalledOnce();
+    const user = await getUser();
+    expect(user.dailyUsage?.requests).toBe(1);
+    expect(user.generationLockUntil).toBeUndefined();
+  });
+
+  it('refunds the allowance when the task fails', async () => {
+    await createUser();
+
+    await expect(runGeneration(createContext(), USER_ID, SONNET, vi.fn(), async () => {
+      throw new Error('model unavailable');
+    })).rejects.toThrow('model unavailable');
+
+    const user = await getUser();
+    expect(user.dailyUsage?.requests).toBe(0);
+    expect(user.monthlyUsage?.requests).toBe(0);
+    expect(user.generationLockUntil).toBeUndefined();
+  });
+
+  it('refunds the balance when the task ends without an answer', async () => {
+    await createUser({ dailyUsage: usedRequests(DAILY_LIMIT), bonusRequests: 5 });
+
+    await runGeneration(createContext(), USER_ID, SONNET, vi.fn(), async (charge) => {
+      expect(charge.billing).toBe('balance');
+      expect((await getUser()).bonusRequests).toBe(3);
+    });
+
+    expect((await getUser()).bonusRequests).toBe(5);
+  });
+
+  it('calls onLimitReached when nothing is left', async () => {
+    await createUser({ dailyUsage: usedRequests(DAILY_LIMIT) });
+    const onLimitReached = vi.fn(async () => undefined);
+    const task = vi.fn(async () => undefined);
+
+    await runGeneration(createContext(), USER_ID, MINI, onLimitReached, task);
+
+    expect(onLimitReached).toHaveBeenCalledOnce();
+    expect(task).not.toHaveBeenCalled();
+    expect((await getUser()).generationLockUntil).toBeUndefined();
+  });
+
+  it('refuses while another generation holds the lock', async () => {
+    await createUser({ generationLockUntil: new Date(Date.now() + 60 * 1000) });
+    const ctx = createContext();
+    const task = vi.fn(async () => undefined);
+
+    await runGeneration(ctx, USER_ID, MINI, vi.fn(), task);
+
+    expect(task).not.toHaveBeenCalled();
+    expect(ctx.reply).toHaveBeenCalledWith(createI18n('en').t('generation.busy'));
+    const user = await getUser();
+    expect(user.dailyUsage?.requests).toBe(0);
+    // Чужую блокировку не снимаем
+    expect(user.generationLockUntil).toBeInstanceOf(Date);
+  });
+
+  it('takes over a lock that has expired', async () => {
+    await createUser({ generationLockUntil: new Date(Date.now() - 1000) });
+    const ctx = createContext();
+    const task = vi.fn(async () => undefined);
+
+    await runGeneration(ctx, USER_ID, MINI, vi.fn(), task);
+
+    expect(task).toHaveBeenCalledOnce();
+    expect(ctx.reply).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,317 @@
+import { Context } from 'telegraf';
+import { Filter, ObjectId } from 'mongodb';
+
+import { db } from '../db';
+import { ModelConfig, calculateCost } from '../models';
+import {
+  QuotaBilling,
+  UsageAmounts,
+  getTierQuota,
+  costToCredits,
+  emptyQuotaCounters,
+  getMonthStart,
+} from '../quotas';
+import { I18n } from '../i18n';
+import { UserProfile, getUserProfile, users } from '../users';
+import { getI18n } from '../context';
+
+type UsageKind = 'chat' | 'summary' | 'title' | 'document';
+
+// Расход на один вызов модели: токены из поля usage ответа и стоимость по таблице цен
+interface UsageRecord extends UsageAmounts {
+  _id?: ObjectId;
+  userId: number;
+  kind: UsageKind;
+  modelId: string;
+  generationId?: ObjectId;
+  cost: number; // USD
+  billing: QuotaBilling;
+  estimated: boolean; // Ответ не вернул usage (например, генерацию остановили) — токены посчитаны локально
+  createdAt: Date;
+}
+
+// Списанный перед запросом лимит. Если ответ так и не получен, списание возвращается.
+interface QuotaCharge {
+  userId: number;
+  billing: QuotaBilling;
+  requests: number;
+  settled?: boolean; // Ответ получен, расход записан
+  refunded?: boolean;
+}
+
+const usageRecords = () => db.collection<UsageRecord>('usage_records');
+
+const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Блокировка снимается в конце генерации; срок — на случай, если вызов функции оборвался
+const GENERATION_LOCK_TTL_MS = 5 * 60 * 1000;
+
+const PREMIUM_DAILY_IMAGE_LIMIT = 10;
+
+async function recordUsage(
+  userId: number,
+  usage: Pick<UsageRecord, 'kind' | 'modelId' | 'inputTokens' | 'outputTokens' | 'estimated'> &
+    Partial<Pick<UsageRecord, 'generationId' | 'requests' | 'billing'>>
+) {
+  const cost = calculateCost(usage.modelId, usage.inputTokens, usage.outputTokens);
+  const credits = costToCredits(cost);
+  const billing = usage.billing ?? 'allowance';
+  await usageRecords().insertOne({
+    ...usage,
+    userId,
+    requests: usage.requests ?? 0,
+    cost,
+    credits,
+    billing,
+    createdAt: new Date(),
+  });
+
+  // Запросы списываются заранее (consumeQuota), токены и кредиты становятся известны только сейчас
+  if (billing === 'allowance') {
+    const tokens = usage.inputTokens + usage.outputTokens;
+    await users().updateOne(
+      { userId },
+      {
+        $inc: {
+          'dailyUsage.tokens': tokens,
+          'dailyUsage.credits': credits,
+          'monthlyUsage.tokens': tokens,
+          'monthlyUsage.credits': credits,
+        }
+      }
+    );
+  }
+}
+
+type UsageTotals = UsageAmounts & { cost: number, count: number };
+
+function formatUsageTotals(i18n: I18n, totals: UsageTotals): string {
+  return i18n.t('usage.totals', {
+    answers: i18n.formatCount('unit.answers', totals.count),
+    tokens: i18n.formatCount('unit.tokens', totals.inputTokens + totals.outputTokens),
+    input: i18n.formatNumber(totals.inputTokens),
+    output: i18n.formatNumber(totals.outputTokens),
+    cost: totals.cost.toFixed(4),
+  });
+}
+
+// Суммарный расход с даты since. count — число ответов на сообщения пользователя.
+async function getUsageTotals(filter: Filter<UsageRecord>, since: Date): Promise<UsageTotals> {
+  const [totals] = await usageRecords().aggregate<UsageTotals>([
+    { $match: { ...filter, createdAt: { $gte: since } } },
+    {
+      $group: {
+        _id: null,
+        requests: { $sum: '$requests' },
+        inputTokens: { $sum: '$inputTokens' },
+        outputTokens: { $sum: '$outputTokens' },
+        credits: { $sum: '$credits' },
+        cost: { $sum: '$cost' },
+        count: { $sum: { $cond: [{ $eq: ['$kind', 'chat'] }, 1, 0] } },
+      }
+    }
+  ]).toArray();
+  return totals ?? { requests: 0, inputTokens: 0, outputTokens: 0, credits: 0, cost: 0, count: 0 };
+}
+
+// Дневное окно лимитов — 24 часа с первого запроса после предыдущего сброса,
+// месячное — календарный месяц в часовом поясе пользователя
+async function refreshQuotaWindows(user: UserProfile): Promise<void> {
+  const now = new Date();
+  const monthStart = getMonthStart(user.timezone, now);
+  const update: Partial<UserProfile> = {};
+
+  if (now.getTime() >= user.lastResetDate.getTime() + DAILY_WINDOW_MS) {
+    Object.assign(update, { dailyImages: 0, dailyUsage: emptyQuotaCounters(), lastResetDate: now });
+  }
+  if (user.usageMonthStart?.getTime() !== monthStart.getTime()) {
+    Object.assign(update, { monthlyUsage: emptyQuotaCounters(), usageMonthStart: monthStart });
+  }
+  if (Object.keys(update).length === 0) return;
+
+  // Условие на прежние значения: параллельный запрос не обнулит уже начатое окно второй раз
+  await users().updateOne(
+    {
+      userId: user.userId,
+      lastResetDate: user.lastResetDate,
+      usageMonthStart: user.usageMonthStart ?? { $exists: false }
+    },
+    { $set: update }
+  );
+  const fresh = await users().findOne({ userId: user.userId });
+  if (fresh) {
+    Object.assign(user, fresh);
+  }
+}
+
+// Смена часового пояса сдвигает начало текущего месяца, а накопленный за месяц расход сохраняется.
+// Если в новом поясе уже наступил другой месяц, окно сбросит refreshQuotaWindows.
+async function setUserTimeZone(user: UserProfile, timeZone: string) {
+  const now = new Date();
+  const previousStart = getMonthStart(user.timezone, now);
+  const nextStart = getMonthStart(timeZone, now);
+  // Начала одного и того же месяца в разных поясах отличаются не больше чем на сутки с небольшим
+  const sameMonth = Math.abs(nextStart.getTime() - previousStart.getTime()) < 2 * DAILY_WINDOW_MS;
+  const moveMonth = sameMonth && user.usageMonthStart?.getTime() === previousStart.getTime();
+
+  await users().updateOne(
+    { userId: user.userId },
+    { $set: { timezone: timeZone, ...(moveMonth && { usageMonthStart: nextStart }) } }
+  );
+  user.timezone = timeZone;
+  if (moveMonth) {
+    user.usageMonthStart = nextStart;
+  }
+}
+
+// Расход лимита тарифа за текущие дневное окно и месяц, в единицах лимита
+function getQuotaUsage(user: UserProfile) {
+  const quota = getTierQuota(user.subscription);
+  return {
+    quota,
+    daily: user.dailyUsage?.[quota.unit] ?? 0,
+    monthly: user.monthlyUsage?.[quota.unit] ?? 0,
+  };
+}
+
+// Профиль, у которого лимит тарифа еще позволяет ответ этой моделью
+function withinQuotaFilter(user: UserProfile, model: ModelConfig): Filter<UserProfile> {
+  const quota = getTierQuota(user.subscription);
+  const cost = model.requestCost;
+  // В запросах стоимость известна заранее, в токенах и кредитах — только после ответа
+  const withinLimit = (limit: number) => quota.unit === 'requests'
+    ? { $not: { $gt: limit - cost } }
+    : { $not: { $gte: limit } };
+  return {
+    userId: user.userId,
+    ...(quota.daily !== undefined && { [`dailyUsage.${quota.unit}`]: withinLimit(quota.daily) }),
+    ...(quota.monthly !== undefined && { [`monthlyUsage.${quota.unit}`]: withinLimit(quota.monthly) }),
+  } as Filter<UserProfile>;
+}
+
+// Хватит ли лимита или баланса на ответ, ничего не списывая
+async function hasQuota(userId: number, model: ModelConfig): Promise<boolean> {
+  const user = await getUserProfile(userId);
+  await refreshQuotaWindows(user);
+  if (await users().countDocuments(withinQuotaFilter(user, model), { limit: 1 }) > 0) {
+    return true;
+  }
+  return (user.bonusRequests ?? 0) >= model.requestCost;
+}
+
+// Списываем лимит одним условным обновлением, поэтому параллельные запросы не превысят его.
+// Когда лимит исчерпан, списываем стоимость модели с купленного баланса запросов.
+async function consumeQuota(userId: number, model: ModelConfig): Promise<QuotaCharge | null> {
+  const user = await getUserProfile(userId);
+  await refreshQuotaWindows(user);
+
+  const cost = model.requestCost;
+  const allowance = await users().updateOne(withinQuotaFilter(user, model), {
+    $inc: { 'dailyUsage.requests': cost, 'monthlyUsage.requests': cost }
+  });
+  if (allowance.modifiedCount > 0) {
+    return { userId, billing: 'allowance', requests: cost };
+  }
+
+  const balance = await users().updateOne(
+    { userId, bonusRequests: { $gte: cost } },
+    { $inc: { bonusRequests: -cost } }
+  );
+  return balance.modifiedCount > 0 ? { userId, billing: 'balance', requests: cost } : null;
+}
+
+async function refundQuota(charge: QuotaCharge) {
+  if (charge.settled || charge.refunded) return;
+  charge.refunded = true;
+
+  await users().updateOne(
+    { userId: charge.userId },
+    charge.billing === 'allowance'
+      ? { $inc: { 'dailyUsage.requests': -charge.requests, 'monthlyUsage.requests': -charge.requests } }
+      : { $inc: { bonusRequests: charge.requests } }
+  );
+}
+
+async function acquireGenerationLock(userId: number): Promise<boolean> {
+  const now = new Date();
+  const result = await users().updateOne(
+    {
+      userId,
+      $or: [{ generationLockUntil: { $exists: false } }, { generationLockUntil: { $lt: now } }]
+    },
+    { $set: { generationLockUntil: new Date(now.getTime() + GENERATION_LOCK_TTL_MS) } }
+  );
+  return result.modifiedCount > 0;
+}
+
+async function releaseGenerationLock(userId: number) {
+  await users().updateOne({ userId }, { $unset: { generationLockUntil: '' } });
+}
+
+// Запрос к модели: у пользователя одновременно идет только одна генерация, лимит списывается заранее
+// и возвращается, если задача не дошла до ответа (ошибка, пустой ответ, ранний выход).
+async function runGeneration(
+  ctx: Context,
+  userId: number,
+  model: ModelConfig,
+  onLimitReached: () => Promise<unknown>,
+  task: (charge: QuotaCharge) => Promise<void>
+): Promise<void> {
+  if (!(await acquireGenerationLock(userId))) {
+    const busy = getI18n(ctx).t('generation.busy');
+    if (ctx.inlineQuery) {
+      await ctx.answerInlineQuery([], { cache_time: 0, is_personal: true, button: { text: busy, start_parameter: 'inline' } });
+    } else if (ctx.chosenInlineResult) {
+      await ctx.editMessageText(busy);
+    } else {
+      await (ctx.callbackQuery ? ctx.answerCbQuery(busy, { show_alert: true }) : ctx.reply(busy));
+    }
+    return;
+  }
+
+  try {
+    const charge = await consumeQuota(userId, model);
+    if (!charge) {
+      await onLimitReached();
+      return;
+    }
+    try {
+      await task(charge);
+    } finally {
+      await refundQuota(charge);
+    }
+  } finally {
+    await releaseGenerationLock(userId);
+  }
+}
+
+// Отдельный дневной лимит на генерацию изображений (только премиум)
+async function updateUserImageRequests(userId: number): Promise<boolean> {
+  const user = await getUserProfile(userId);
+  if (user.subscription !== 'premium') {
+    return false;
+  }
+
+  await refreshQuotaWindows(user);
+  const result = await users().updateOne(
+    { userId, dailyImages: { $not: { $gte: PREMIUM_DAILY_IMAGE_LIMIT } } },
+    { $inc: { dailyImages: 1 } }
+  );
+  return result.modifiedCount > 0;
+}
+
+export {
+  QuotaCharge,
+  DAILY_WINDOW_MS,
+  PREMIUM_DAILY_IMAGE_LIMIT,
+  usageRecords,
+  recordUsage,
+  formatUsageTotals,
+  getUsageTotals,
+  refreshQuotaWindows,
+  setUserTimeZone,
+  getQuotaUsage,
+  hasQuota,
+  consumeQuota,
+  runGeneration,
+  updateUserImageRequests,
+};
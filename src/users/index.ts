@@ -0,0 +1,132 @@
+import { MongoServerError, ObjectId } from 'mongodb';
+
+import { db } from '../db';
+import { SubscriptionTier } from '../models';
+import { QuotaCounters } from '../quotas';
+import {
+  I18n,
+  Locale,
+  resolveLocale,
+  createI18n,
+} from '../i18n';
+import { checkAndUpdateSubscriptionStatus } from '../billing/subscriptions';
+
+interface UserProfile {
+  _id?: ObjectId;
+  userId: number;
+  username?: string;
+  subscription: SubscriptionTier;
+  dailyImages?: number; // Сгенерированные изображения в текущем дневном окне
+  lastResetDate: Date; // Начало дневного окна лимитов
+  dailyUsage?: QuotaCounters; // Расход лимита тарифа в текущем дневном окне
+  monthlyUsage?: QuotaCounters;
+  usageMonthStart?: Date; // Месяц, к которому относится monthlyUsage
+  generationLockUntil?: Date; // Пока не истекло, у пользователя идет генерация
+  burst?: { windowStart: Date, count: number }; // Сообщения в коротком окне антифлуда
+  subscriptionExpiryDate?: Date | undefined;
+  starSubscriptionChargeId?: string; // Платеж, которым оформлена подписка с автопродлением
+  autoRenew?: boolean;
+  expiryRemindersSent?: number[]; // За сколько дней до окончания уже отправлены напоминания
+  activeThreadId?: ObjectId;
+  selectedModel?: string; // Ключ модели из каталога
+  persona?: string; // Ключ пресета или 'custom'
+  customSystemPrompt?: string;
+  voiceReplies?: boolean; // Отвечать голосом на голосовые сообщения (премиум)
+  role?: UserRole;
+  banned?: boolean;
+  blockedBot?: boolean; // Пользователь заблокировал бота (403 при рассылке)
+  lastActiveAt?: Date;
+  referralCode?: string;
+  referredBy?: number;
+  bonusRequests?: number; // Баланс запросов сверх лимита тарифа (пакеты, бонусы, промокоды), не сгорает
+  pendingDiscount?: { code: string, percent: number }; // Скидка по промокоду на следующий счет
+  language?: Locale; // Выбран командой /language; если не задан — по языку Telegram
+  languageCode?: string; // language_code из последнего обновления, для уведомлений вне диалога
+  timezone?: string; // Для дат в сообщениях; по умолчанию Europe/Moscow
+}
+
+type UserRole = 'user' | 'admin';
+
+const users = () => db.collection<UserProfile>('users');
+
+// Язык и часовой пояс пользователя для сообщений вне диалога (уведомления, напоминания)
+function getUserI18n(user: Pick<UserProfile, 'language' | 'languageCode' | 'timezone'>): I18n {
+  return createI18n(user.language ?? resolveLocale(user.languageCode), user.timezone);
+}
+
+const ADMIN_IDS = (process.env.ADMIN_IDS || '')
+  .split(',')
+  .map(id => parseInt(id.trim(), 10))
+  .filter(id => !Number.isNaN(id));
+
+async function getUserProfile(userId: number, username?: string): Promise<UserProfile> {
+  await checkAndUpdateSubscriptionStatus(userId);
+  
+  let user = await users().findOne({ userId });
+  
+  if (!user) {
+    const newUser: UserProfile = {
+      userId,
+      username,
+      subscription: 'free',
+      lastResetDate: new Date(),
+    };
+    try {
+      const result = await users().insertOne(newUser);
+      newUser._id = result.insertedId;
+      return newUser;
+    } catch (error) {
+      // Профиль уже создал параллельный запрос: userId уникален
+      if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+    }
+    user = (await users().findOne({ userId }))!;
+  }
+  
+  if (username && username !== user.username) {
+    await users().updateOne(
+      { userId },
+      { $set: { username } }
+    );
+    user.username = username;
+  }
+  
+  return user;
+}
+
+function isEnvAdmin(userId: number): boolean {
+  return ADMIN_IDS.includes(userId);
+}
+
+// Администратор — из ADMIN_IDS или с ролью admin в профиле
+async function isAdmin(userId: number): Promise<boolean> {
+  if (isEnvAdmin(userId)) return true;
+  const user = await users().findOne({ userId }, { projection: { role: 1 } });
+  return user?.role === 'admin';
+}
+
+// Пользователь по ID или @username
+async function findUserByReference(reference: string): Promise<UserProfile | null> {
+  if (reference.startsWith('@')) {
+    return users().findOne({ username: reference.slice(1) });
+  }
+  const userId = parseInt(reference, 10);
+  return Number.isNaN(userId) ? null : users().findOne({ userId });
+}
+
+async function setUserBanned(userId: number, banned: boolean) {
+  await users().updateOne(
+    { userId },
+    banned ? { $set: { banned: true } } : { $unset: { banned: '' } }
+  );
+}
+
+export {
+  UserProfile,
+  users,
+  getUserI18n,
+  getUserProfile,
+  isEnvAdmin,
+  isAdmin,
+  findUserByReference,
+  setUserBanned,
+};